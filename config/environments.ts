@@ -0,0 +1,176 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { OpenApiContract } from "../helpers/openapi-contract";
+import { formatZodIssues } from "../helpers/schema-validation";
+import {
+  LOGIN_CREDENTIALS_SCHEMA,
+  LoginCredentials,
+  USER_ROSTER_SCHEMA,
+  UserRoster,
+} from "../schemas/schema";
+
+export const ENVIRONMENT_NAMES = ["dev", "staging", "prod", "local"] as const;
+
+export type EnvironmentName = (typeof ENVIRONMENT_NAMES)[number];
+
+/** How an API login becomes a browser session for the UI project. */
+export const UI_SESSION_SCHEMA = z
+  .object({
+    /** Web app URL, used as the UI tests' `baseURL` and localStorage origin. */
+    baseURL: z.string().url(),
+    /** Domain of the session cookies (default: the host of `baseURL`). */
+    cookieDomain: z.string().min(1).optional(),
+    /** Cookie name → login response field, e.g. `{ token: "accessToken" }`. */
+    cookies: z.record(z.string()).default({}),
+    /** localStorage key → login response field; objects are stored as JSON. */
+    localStorage: z.record(z.string()).default({}),
+  })
+  .strict();
+
+export const ENVIRONMENT_SCHEMA = z
+  .object({
+    name: z.enum(ENVIRONMENT_NAMES),
+    apiBaseURL: z.string().url(),
+    credentialsFile: z.string().min(1),
+    usersFile: z.string().min(1),
+    headers: z.record(z.string()).default({}),
+    /** OpenAPI document every response is validated against. */
+    openApiSpec: z.string().min(1).optional(),
+    ui: UI_SESSION_SCHEMA,
+  })
+  .strict();
+
+export type Environment = z.infer<typeof ENVIRONMENT_SCHEMA>;
+
+/**
+ * Connection profiles for every environment the suite can run against.
+ * `credentialsFile` and `usersFile` are resolved relative to the repository
+ * root.
+ */
+const ENVIRONMENTS: Record<
+  EnvironmentName,
+  z.input<typeof ENVIRONMENT_SCHEMA>
+> = {
+  dev: {
+    name: "dev",
+    apiBaseURL: "https://dummyjson.com",
+    credentialsFile: "testData/loginUser.json",
+    usersFile: "testData/users.json",
+    headers: { "Content-Type": "application/json" },
+    openApiSpec: "openapi/dummyjson.openapi.json",
+    ui: {
+      baseURL: "https://dummyjson.com",
+      cookies: { accessToken: "accessToken", refreshToken: "refreshToken" },
+    },
+  },
+  staging: {
+    name: "staging",
+    apiBaseURL: "https://dummyjson.com",
+    credentialsFile: "testData/loginUser.json",
+    usersFile: "testData/users.json",
+    headers: { "Content-Type": "application/json" },
+    openApiSpec: "openapi/dummyjson.openapi.json",
+    ui: {
+      baseURL: "https://dummyjson.com",
+      cookies: { accessToken: "accessToken", refreshToken: "refreshToken" },
+    },
+  },
+  prod: {
+    name: "prod",
+    apiBaseURL: "https://dummyjson.com",
+    credentialsFile: "testData/loginUser.json",
+    usersFile: "testData/users.json",
+    headers: { "Content-Type": "application/json" },
+    openApiSpec: "openapi/dummyjson.openapi.json",
+    ui: {
+      baseURL: "https://dummyjson.com",
+      cookieDomain: "www.dummyjson.com",
+      cookies: { accessToken: "accessToken", refreshToken: "refreshToken" },
+    },
+  },
+  local: {
+    name: "local",
+    apiBaseURL: "http://127.0.0.1:3000",
+    credentialsFile: "testData/loginUser.json",
+    usersFile: "testData/users.json",
+    headers: { "Content-Type": "application/json" },
+    openApiSpec: "openapi/dummyjson.openapi.json",
+    ui: {
+      baseURL: "http://127.0.0.1:3000",
+      cookies: { accessToken: "accessToken", refreshToken: "refreshToken" },
+    },
+  },
+};
+
+const ROOT_DIR = path.resolve(__dirname, "..");
+
+/**
+ * Resolves and validates the environment profile. The name defaults to the
+ * `ENV` environment variable (then `dev`), and `API_BASE_URL` overrides the
+ * profile's base URL, e.g. to point the suite at a local mock, and
+ * `UI_BASE_URL` the web app's. `OPENAPI_SPEC` overrides the contract
+ * document; `OPENAPI_SPEC=off` disables it.
+ */
+export function loadEnvironment(
+  name: string | undefined = process.env.ENV
+): Environment {
+  const environmentName = z.enum(ENVIRONMENT_NAMES).safeParse(name ?? "dev");
+  if (!environmentName.success) {
+    throw new Error(
+      `Unknown environment "${name}". Expected one of: ${ENVIRONMENT_NAMES.join(
+        ", "
+      )}`
+    );
+  }
+  const profile = ENVIRONMENTS[environmentName.data];
+  const result = ENVIRONMENT_SCHEMA.safeParse({
+    ...profile,
+    apiBaseURL: process.env.API_BASE_URL ?? profile.apiBaseURL,
+    ui: {
+      ...profile.ui,
+      baseURL: process.env.UI_BASE_URL ?? profile.ui.baseURL,
+    },
+    openApiSpec:
+      process.env.OPENAPI_SPEC === "off"
+        ? undefined
+        : process.env.OPENAPI_SPEC ?? profile.openApiSpec,
+  });
+  if (!result.success) {
+    throw new Error(
+      `Invalid configuration for environment "${
+        environmentName.data
+      }":\n${formatZodIssues(result.error.issues)}`
+    );
+  }
+  return result.data;
+}
+
+/** Reads and validates the login credentials declared by `environment`. */
+export function loadCredentials(environment: Environment): LoginCredentials {
+  const file = path.resolve(ROOT_DIR, environment.credentialsFile);
+  return LOGIN_CREDENTIALS_SCHEMA.parse(
+    JSON.parse(fs.readFileSync(file, "utf-8"))
+  );
+}
+
+/** Reads and validates the roster of named test users declared by `environment`. */
+export function loadUsers(environment: Environment): UserRoster {
+  const file = path.resolve(ROOT_DIR, environment.usersFile);
+  return USER_ROSTER_SCHEMA.parse(JSON.parse(fs.readFileSync(file, "utf-8")));
+}
+
+/**
+ * Loads the OpenAPI contract declared by `environment`, if any, matching
+ * requests to the environment's `apiBaseURL`.
+ */
+export function loadContract(
+  environment: Environment
+): OpenApiContract | undefined {
+  return environment.openApiSpec
+    ? OpenApiContract.load(
+        path.resolve(ROOT_DIR, environment.openApiSpec),
+        environment.apiBaseURL
+      )
+    : undefined;
+}
@@ -0,0 +1,38 @@
+import { DriftTarget } from "../helpers/schema-drift";
+import { ENDPOINTS } from "../schemas/endpoints";
+import {
+  AUTH_USER_SCHEMA,
+  CART_SCHEMA,
+  CARTS_SCHEMA,
+  LOGIN_API_SCHEMA,
+  LoginCredentials,
+} from "../schemas/schema";
+
+/** Endpoints checked by `npm run schema:drift`. */
+export const SCHEMA_DRIFT_TARGETS: DriftTarget[] = [
+  {
+    schemaName: "LOGIN_API_SCHEMA",
+    schema: LOGIN_API_SCHEMA,
+    endpoint: ENDPOINTS.auth.login,
+    body: (credentials: LoginCredentials) => credentials,
+  },
+  {
+    schemaName: "AUTH_USER_SCHEMA",
+    schema: AUTH_USER_SCHEMA,
+    endpoint: ENDPOINTS.auth.me,
+    authenticated: true,
+  },
+  {
+    schemaName: "CARTS_SCHEMA",
+    schema: CARTS_SCHEMA,
+    endpoint: ENDPOINTS.carts.all,
+    query: { limit: 10 },
+  },
+  {
+    schemaName: "CART_SCHEMA",
+    schema: CART_SCHEMA,
+    endpoint: ENDPOINTS.carts.all,
+    query: { limit: 30 },
+    samples: (body) => body.carts,
+  },
+];
@@ -1,38 +1,513 @@
-import { test as base } from "@playwright/test";
-import { ApiHelper } from "../helpers/api-helper";
-import loginData from "../testData/loginUser.json";
+import {
+  test as base,
+  expect as baseExpect,
+  Fixtures,
+  Page,
+  TestInfo,
+} from "@playwright/test";
+import { z } from "zod";
+import {
+  Environment,
+  EnvironmentName,
+  loadContract,
+  loadCredentials,
+  loadEnvironment,
+  loadUsers,
+} from "../config/environments";
+import {
+  ApiHelper,
+  ApiHelperOptions,
+  ApiResponse,
+} from "../helpers/api-helper";
+import { browserStorageState } from "../helpers/browser-session";
+import { cassetteOptionsFromEnv } from "../helpers/cassette";
+import {
+  createFactory,
+  Factory,
+  FactoryOptions,
+  randomSeed,
+} from "../helpers/data-factory";
+import {
+  AuthenticatedApiHelper,
+  TokenPair,
+} from "../helpers/authenticated-api-helper";
+import {
+  createEndpointClient,
+  EndpointClient,
+} from "../helpers/endpoint-client";
+import { registerDummyJsonRoutes } from "../helpers/dummyjson-mock";
+import { MockServer } from "../helpers/mock-server";
+import { OpenApiContract } from "../helpers/openapi-contract";
+import InitializationPage from "../helpers/page";
+import { PageObjectClass } from "../helpers/page-objects";
+import {
+  formatLoadReport,
+  LatencyBudgetError,
+  LoadOptions,
+  LoadReport,
+  loadViolations,
+  runLoad,
+} from "../helpers/performance";
+import {
+  runScenario,
+  Scenario,
+  ScenarioOptions,
+  ScenarioResult,
+} from "../helpers/scenario";
+import { schemaMatchers } from "../helpers/schema-matchers";
+import { ResponseSchema } from "../helpers/schema-validation";
+import { Session, SessionCache, sessionFrom } from "../helpers/session-cache";
+import { ENDPOINTS } from "../schemas/endpoints";
+import * as SCHEMAS from "../schemas/schema";
+import {
+  LoginCredentials,
+  LoginResponse,
+  TestUser,
+  UserRoster,
+} from "../schemas/schema";
 
 type ApiFixtures = {
+  apiHelperOptions: ApiHelperOptions;
   apiHelper: ApiHelper;
+  /** Typed client for `ENDPOINTS`, sending requests through `apiHelper`. */
+  api: EndpointClient<typeof ENDPOINTS>;
   authenticatedApiHelper: {
-    helper: ApiHelper;
-    accessToken: string;
-    refreshToken: string;
-    response: any;
+    helper: AuthenticatedApiHelper;
+    /** Typed client for `ENDPOINTS`, sending authenticated requests. */
+    api: EndpointClient<typeof ENDPOINTS>;
+    /** Current access token; updated whenever the helper refreshes. */
+    readonly accessToken: string;
+    /** Current refresh token; updated whenever the helper refreshes. */
+    readonly refreshToken: string;
+    readonly tokens: TokenPair;
+    /** The login response. */
+    response: ApiResponse<LoginResponse>;
   };
+  /**
+   * Returns a helper logged in as the named user from the environment's user
+   * roster (e.g. `asUser("admin")`). Repeated calls in a test return the same
+   * helper; sessions are shared across tests through the worker cache.
+   */
+  asUser: (name: string) => Promise<AuthenticatedApiHelper>;
+  /**
+   * The worker's mock server, for overriding routes and inspecting received
+   * requests. Requests are recorded only while a test holds this fixture,
+   * and test routes and requests are removed after it. Only available when
+   * `useMockServer` is enabled.
+   */
+  mockServer: MockServer;
+  /**
+   * Seed for generated test data: `DATA_SEED` when set, random otherwise.
+   * It is recorded as a `data-seed` annotation so failures can be replayed.
+   */
+  dataSeed: number;
+  /**
+   * Runs `scenario` under load (see `runLoad`), attaches the report to the
+   * test and throws a `LatencyBudgetError` when `options.budget` is exceeded.
+   * Each iteration gets `api` and `apiHelper` built for the run, which keep
+   * no exchange log, latency samples or cassette.
+   */
+  loadTest: (
+    scenario: (
+      iteration: number,
+      client: { api: EndpointClient<typeof ENDPOINTS>; apiHelper: ApiHelper }
+    ) => Promise<unknown>,
+    options: LoadOptions
+  ) => Promise<LoadReport>;
+  /** Creates a data factory for `schema`, seeded from `dataSeed`. */
+  factory: <S extends z.ZodTypeAny>(
+    schema: S,
+    defaults?: FactoryOptions<S>["defaults"]
+  ) => Factory<S>;
+  /**
+   * Roster user whose API login seeds the browser's `storageState`, so
+   * `page` starts signed in. Unset by default.
+   */
+  loginAs: string | undefined;
+  /** `InitializationPage` for `page`, checking captures against the contract. */
+  uiPage: InitializationPage;
+  /**
+   * Runs a scenario through `apiHelper`, one `test.step` per request. Steps
+   * can name `ENDPOINTS` and the schemas exported by `schemas/schema.ts`.
+   */
+  runScenario: (
+    scenario: Scenario,
+    options?: ScenarioOptions
+  ) => Promise<ScenarioResult>;
 };
 
-export const test = base.extend<ApiFixtures>({
-  apiHelper: async ({}, use) => {
-    const apiHelper = new ApiHelper();
+type EnvironmentFixtures = {
+  environmentName: EnvironmentName | undefined;
+  /**
+   * Point the environment at a local mock server (default: `MOCK_API` is
+   * set). Specs that enable it with `test.use({ useMockServer: true })` send
+   * no request over the network.
+   */
+  useMockServer: boolean;
+  mockApiServer: MockServer | undefined;
+  environment: Environment;
+  credentials: LoginCredentials;
+  users: UserRoster;
+  sessionCache: SessionCache;
+  /** The environment's OpenAPI contract; violations are recorded, not thrown. */
+  contract: OpenApiContract | undefined;
+  /** Helper options derived from the environment, contract and variables. */
+  apiDefaults: ApiHelperOptions;
+};
+
+/** Zod schemas of `schemas/schema.ts` by export name, for scenario files. */
+const SCENARIO_SCHEMAS: Record<string, ResponseSchema> = Object.fromEntries(
+  Object.entries(SCHEMAS).filter(([, value]) => value instanceof z.ZodType)
+) as Record<string, ResponseSchema>;
+
+/**
+ * Explicit `apiHelperOptions` win over the defaults derived from the
+ * environment profile; headers are merged.
+ */
+function helperOptions(
+  defaults: ApiHelperOptions,
+  options: ApiHelperOptions
+): ApiHelperOptions {
+  return {
+    ...defaults,
+    ...options,
+    headers: { ...defaults.headers, ...options.headers },
+  };
+}
+
+function rosterUser(users: UserRoster, name: string): TestUser {
+  const user = users[name];
+  if (!user) {
+    throw new Error(
+      `Unknown test user "${name}". Available users: ${Object.keys(users).join(
+        ", "
+      )}`
+    );
+  }
+  return user;
+}
+
+/** Builds `PageClass` for the test's page, checking captures against the contract. */
+function pageObjectFixture<P extends InitializationPage>(
+  PageClass: PageObjectClass<P>
+) {
+  return async (
+    { page, contract }: { page: Page; contract: OpenApiContract | undefined },
+    use: (pageObject: P) => Promise<void>,
+    testInfo: TestInfo
+  ) => {
+    await use(new PageClass(page, { contract, testInfo }));
+  };
+}
+
+/**
+ * Creates an `AuthenticatedApiHelper` for `user`, reusing the worker's cached
+ * session when there is one and logging in otherwise. Token refreshes are
+ * written back to the cache. With cassettes enabled every test logs in
+ * itself, so its cassette holds the login and replays on its own.
+ */
+async function authenticate(
+  sessionCache: SessionCache,
+  environment: Environment,
+  options: ApiHelperOptions,
+  user: LoginCredentials
+): Promise<{ apiHelper: AuthenticatedApiHelper; session: Session }> {
+  const key = `${environment.name}:${user.username}`;
+  const apiHelper = new AuthenticatedApiHelper({
+    ...options,
+    onTokensRefreshed: (tokens) => sessionCache.update(key, tokens),
+  });
+  try {
+    const session =
+      options.cassette && options.cassette.mode !== "off"
+        ? sessionFrom(await apiHelper.login(user))
+        : await sessionCache.get(key, () => apiHelper.login(user));
+    apiHelper.tokens = session.tokens;
+    return { apiHelper, session };
+  } catch (error) {
+    await apiHelper.dispose();
+    throw error;
+  }
+}
+
+export const test = base.extend<ApiFixtures, EnvironmentFixtures>({
+  environmentName: [undefined, { option: true, scope: "worker" }],
+
+  useMockServer: [!!process.env.MOCK_API, { option: true, scope: "worker" }],
+
+  mockApiServer: [
+    async ({ useMockServer }, use) => {
+      if (!useMockServer) {
+        await use(undefined);
+        return;
+      }
+      const server = registerDummyJsonRoutes(new MockServer());
+      // Requests are kept only while a test holds the `mockServer` fixture.
+      server.recordRequests = false;
+      await server.start();
+      await use(server);
+      await server.stop();
+    },
+    { scope: "worker" },
+  ],
+
+  environment: [
+    async ({ environmentName, mockApiServer }, use) => {
+      const environment = loadEnvironment(environmentName);
+      await use(
+        mockApiServer
+          ? { ...environment, apiBaseURL: mockApiServer.url }
+          : environment
+      );
+    },
+    { scope: "worker" },
+  ],
+
+  credentials: [
+    async ({ environment }, use) => {
+      await use(loadCredentials(environment));
+    },
+    { scope: "worker" },
+  ],
+
+  users: [
+    async ({ environment }, use) => {
+      await use(loadUsers(environment));
+    },
+    { scope: "worker" },
+  ],
+
+  contract: [
+    async ({ environment }, use) => {
+      await use(loadContract(environment));
+    },
+    { scope: "worker" },
+  ],
+
+  apiDefaults: [
+    async ({ environment, contract }, use) => {
+      await use({
+        baseURL: environment.apiBaseURL,
+        headers: environment.headers,
+        cassette: cassetteOptionsFromEnv(),
+        contract,
+      });
+    },
+    { scope: "worker" },
+  ],
+
+  sessionCache: [
+    async ({}, use) => {
+      const sessionCache = new SessionCache();
+      await use(sessionCache);
+      sessionCache.clear();
+    },
+    { scope: "worker" },
+  ],
+
+  mockServer: async ({ mockApiServer }, use) => {
+    if (!mockApiServer) {
+      throw new Error(
+        "mockServer requires the mock API: set MOCK_API=1 or the useMockServer option"
+      );
+    }
+    mockApiServer.recordRequests = true;
+    await use(mockApiServer);
+    mockApiServer.recordRequests = false;
+    mockApiServer.reset();
+  },
+
+  dataSeed: async ({}, use, testInfo) => {
+    const seed = process.env.DATA_SEED
+      ? Number(process.env.DATA_SEED)
+      : randomSeed();
+    testInfo.annotations.push({ type: "data-seed", description: String(seed) });
+    await use(seed);
+  },
+
+  factory: async ({ dataSeed }, use) => {
+    let created = 0;
+    await use((schema, defaults) =>
+      createFactory(schema, { seed: dataSeed + created++, defaults })
+    );
+  },
+
+  apiHelperOptions: [{}, { option: true }],
+
+  apiHelper: async ({ apiDefaults, apiHelperOptions }, use, testInfo) => {
+    const apiHelper = new ApiHelper(
+      helperOptions(apiDefaults, apiHelperOptions)
+    );
     await use(apiHelper);
+    await apiHelper.logger.attachOnFailure(testInfo);
+    await apiHelper.dispose();
+    apiHelper.assertLatencyBudgets();
+  },
+
+  loadTest: async ({ apiDefaults, apiHelperOptions }, use, testInfo) => {
+    const apiHelper = new ApiHelper({
+      ...helperOptions(apiDefaults, apiHelperOptions),
+      cassette: undefined,
+      latencyBudgets: undefined,
+      recordExchanges: false,
+    });
+    const client = {
+      api: createEndpointClient(apiHelper, ENDPOINTS),
+      apiHelper,
+    };
+    await use(async (scenario, options) => {
+      const report = await runLoad(
+        (iteration) => scenario(iteration, client),
+        options
+      );
+      await testInfo.attach(`${report.name}.json`, {
+        body: JSON.stringify(report, null, 2),
+        contentType: "application/json",
+      });
+      await testInfo.attach(`${report.name}.txt`, {
+        body: formatLoadReport(report),
+        contentType: "text/plain",
+      });
+      const violations = options.budget
+        ? loadViolations(report, options.budget)
+        : [];
+      if (violations.length) {
+        throw new LatencyBudgetError(
+          violations.map((violation) => `${report.name}: ${violation}`)
+        );
+      }
+      return report;
+    });
+    await apiHelper.dispose();
+  },
+
+  api: async ({ apiHelper }, use) => {
+    await use(createEndpointClient(apiHelper, ENDPOINTS));
   },
 
-  authenticatedApiHelper: async ({}, use) => {
-    const apiHelper = new ApiHelper();
-    const response = await apiHelper.postRequest(
-      "https://dummyjson.com/auth/login",
-      { "Content-Type": "application/json" },
-      loginData
+  authenticatedApiHelper: async (
+    { environment, credentials, sessionCache, apiDefaults, apiHelperOptions },
+    use,
+    testInfo
+  ) => {
+    const { apiHelper, session } = await authenticate(
+      sessionCache,
+      environment,
+      helperOptions(apiDefaults, apiHelperOptions),
+      credentials
     );
 
     await use({
       helper: apiHelper,
-      accessToken: response.accessToken,
-      refreshToken: response.refreshToken,
-      response: response,
+      api: createEndpointClient(apiHelper, ENDPOINTS),
+      get accessToken() {
+        return apiHelper.tokens.accessToken;
+      },
+      get refreshToken() {
+        return apiHelper.tokens.refreshToken;
+      },
+      get tokens() {
+        return apiHelper.tokens;
+      },
+      response: session.loginResponse,
+    });
+    await apiHelper.logger.attachOnFailure(testInfo);
+    await apiHelper.dispose();
+  },
+
+  asUser: async (
+    { environment, users, sessionCache, apiDefaults, apiHelperOptions },
+    use,
+    testInfo
+  ) => {
+    const helpers = new Map<string, Promise<AuthenticatedApiHelper>>();
+    await use(async (name) => {
+      const user = rosterUser(users, name);
+      if (!helpers.has(name)) {
+        helpers.set(
+          name,
+          authenticate(
+            sessionCache,
+            environment,
+            helperOptions(apiDefaults, apiHelperOptions),
+            user
+          ).then(({ apiHelper }) => apiHelper)
+        );
+      }
+      return await helpers.get(name)!;
     });
+    for (const pending of helpers.values()) {
+      const helper = await pending.catch(() => undefined);
+      await helper?.logger.attachOnFailure(testInfo);
+      await helper?.dispose();
+    }
+  },
+
+  loginAs: [undefined, { option: true }],
+
+  baseURL: async ({ environment }, use) => {
+    await use(environment.ui.baseURL);
+  },
+
+  storageState: async (
+    {
+      loginAs,
+      environment,
+      users,
+      sessionCache,
+      apiDefaults,
+      apiHelperOptions,
+    },
+    use
+  ) => {
+    if (!loginAs) {
+      await use(undefined);
+      return;
+    }
+    const { apiHelper, session } = await authenticate(
+      sessionCache,
+      environment,
+      helperOptions(apiDefaults, apiHelperOptions),
+      rosterUser(users, loginAs)
+    );
+    await apiHelper.dispose();
+    await use(
+      browserStorageState(
+        { ...session.loginResponse.body, ...session.tokens },
+        environment.ui
+      )
+    );
+  },
+
+  uiPage: pageObjectFixture(InitializationPage),
+
+  runScenario: async ({ apiHelper }, use, testInfo) => {
+    await use((scenario, options) =>
+      runScenario(apiHelper, scenario, {
+        endpoints: ENDPOINTS,
+        schemas: SCENARIO_SCHEMAS,
+        testInfo,
+        ...options,
+      })
+    );
   },
 });
 
-export { expect } from "@playwright/test";
+/**
+ * Extends `test` with one fixture per page object class, each constructed for
+ * the test's `page` like `uiPage`, e.g. `withPageObjects({ cartPage: CartPage })`.
+ */
+export function withPageObjects<C extends Record<string, PageObjectClass>>(
+  classes: C
+) {
+  return test.extend<{ [K in keyof C]: InstanceType<C[K]> }>(
+    Object.fromEntries(
+      Object.entries(classes).map(([name, PageClass]) => [
+        name,
+        pageObjectFixture(PageClass),
+      ])
+    ) as Fixtures<{ [K in keyof C]: InstanceType<C[K]> }>
+  );
+}
+
+export const expect = baseExpect.extend(schemaMatchers);
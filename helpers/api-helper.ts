@@ -1,117 +1,739 @@
-import { request } from "@playwright/test";
+import {
+  APIRequest,
+  APIRequestContext,
+  APIResponse,
+  request,
+  test,
+  TestInfo,
+} from "@playwright/test";
+import { z } from "zod";
+import { ApiLogger, ApiLoggerOptions } from "./api-logger";
+import {
+  Cassette,
+  CassetteOptions,
+  CassetteResponse,
+  cassettePath,
+  openCassette,
+} from "./cassette";
+import type { OpenApiContract } from "./openapi-contract";
+import {
+  collectAll,
+  Page,
+  PageItem,
+  paginate,
+  PaginatedResult,
+  PaginateOptions,
+} from "./pagination";
+import { LatencyBudgets, LatencyTracker } from "./performance";
+import { appendQuery, QuerySerializationOptions } from "./query-string";
+import {
+  bodyType,
+  contentTypeOf,
+  describeBody,
+  saveBody,
+  SavedBody,
+  toRequestOptions,
+  withoutContentType,
+} from "./request-body";
+import {
+  backoffDelay,
+  canRetryMethod,
+  describeAttempt,
+  isRetryableError,
+  resolveRetryPolicy,
+  RetryAttempt,
+  RetryPolicy,
+} from "./retry-policy";
+import {
+  InferResponseBody,
+  RequestValidationError,
+  ResponseSchema,
+  validateResponseBody,
+} from "./schema-validation";
+
+/**
+ * Everything a test needs to know about a completed HTTP exchange.
+ * `body` is parsed according to the response content type: JSON is parsed,
+ * textual types are returned as a string and anything else as a Buffer.
+ * Empty bodies (204, HEAD-like responses) are returned as `null`.
+ */
+export interface ApiResponse<T = any> {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: T;
+  rawBody: Buffer;
+  elapsedMs: number;
+  url: string;
+  method: string;
+  /** Every attempt made for this request, including retried ones. */
+  attempts: RetryAttempt[];
+}
+
+/** Per-call options accepted as the last argument of every request method. */
+export interface RequestOptions {
+  /** Overrides the helper's retry policy for this call. */
+  retry?: Partial<RetryPolicy>;
+  /** Overrides the helper's query serialization for this call. */
+  query?: QuerySerializationOptions;
+  /**
+   * Validates the query parameters before the request is sent; the parsed
+   * value (with defaults and coercions applied) is serialized.
+   */
+  querySchema?: z.ZodTypeAny;
+}
+
+/** The running test's info, or `undefined` outside a test (e.g. in scripts). */
+export function currentTestInfo(): TestInfo | undefined {
+  try {
+    return test.info();
+  } catch {
+    return undefined;
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+const TEXT_CONTENT_TYPE = /^text\/|xml|html|javascript|x-www-form-urlencoded/i;
+const JSON_CONTENT_TYPE = /[/+]json\b/i;
+
+/**
+ * Parses a raw response body based on its content type. JSON that fails to
+ * parse (e.g. an HTML error page served with a JSON content type) falls back
+ * to the raw text so the caller can still inspect it.
+ */
+export function parseBody(rawBody: Buffer, contentType = ""): any {
+  if (rawBody.length === 0) {
+    return null;
+  }
+  if (JSON_CONTENT_TYPE.test(contentType) || contentType === "") {
+    const text = rawBody.toString("utf-8");
+    try {
+      return JSON.parse(text);
+    } catch {
+      return contentType === "" ? rawBody : text;
+    }
+  }
+  if (TEXT_CONTENT_TYPE.test(contentType)) {
+    return rawBody.toString("utf-8");
+  }
+  return rawBody;
+}
+
+async function toApiResponse<T>(
+  method: string,
+  response: APIResponse,
+  startedAt: number
+): Promise<ApiResponse<T>> {
+  const rawBody = await response.body();
+  const elapsedMs = Date.now() - startedAt;
+  const headers = response.headers();
+  return {
+    ok: response.ok(),
+    status: response.status(),
+    statusText: response.statusText(),
+    headers,
+    body: parseBody(rawBody, headers["content-type"]),
+    rawBody,
+    elapsedMs,
+    url: response.url(),
+    method,
+    attempts: [],
+  };
+}
+
+function fromCassette(
+  method: string,
+  url: string,
+  recorded: CassetteResponse,
+  startedAt: number
+): ApiResponse {
+  const rawBody = Cassette.rawBody(recorded);
+  return {
+    ok: recorded.status >= 200 && recorded.status < 300,
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.headers,
+    body: parseBody(rawBody, recorded.headers["content-type"]),
+    rawBody,
+    elapsedMs: Date.now() - startedAt,
+    url,
+    method,
+    attempts: [],
+  };
+}
+
+type NewContextOptions = NonNullable<Parameters<APIRequest["newContext"]>[0]>;
+
+/**
+ * Options used to create the single `APIRequestContext` owned by an
+ * `ApiHelper`. `headers` are sent with every request and can be overridden
+ * per call; a `Content-Type` among them applies to JSON bodies only.
+ */
+export interface ApiHelperOptions {
+  baseURL?: string;
+  headers?: Record<string, string>;
+  ignoreHTTPSErrors?: boolean;
+  timeout?: number;
+  proxy?: NewContextOptions["proxy"];
+  storageState?: NewContextOptions["storageState"];
+  /** Retry policy for every request; see `RetryPolicy` for the defaults. */
+  retry?: Partial<RetryPolicy>;
+  /** How arrays, objects and dates in query parameters are written. */
+  query?: QuerySerializationOptions;
+  /**
+   * Per-endpoint latency budgets, checked by `assertLatencyBudgets` (and by
+   * the `apiHelper` fixture after each test).
+   */
+  latencyBudgets?: LatencyBudgets;
+  /** Exchange logging, redaction and report attachments. */
+  logger?: ApiLoggerOptions;
+  /**
+   * Keep every exchange in `logger` and every duration in `latency` (default
+   * `true`). The `loadTest` fixture turns this off, so a load run neither
+   * grows them nor times anything but the requests.
+   */
+  recordExchanges?: boolean;
+  /** Record exchanges to, or replay them from, a cassette file per test. */
+  cassette?: CassetteOptions;
+  /**
+   * Check every response of a documented operation against the OpenAPI
+   * contract. Violations are recorded as test annotations for the coverage
+   * report, not thrown; pass a `responseSchema` to fail on a mismatch.
+   */
+  contract?: OpenApiContract;
+}
+
 export class ApiHelper {
-  async makeRequest(
+  private context?: Promise<APIRequestContext>;
+
+  /** Every exchange made through this helper, with secrets redacted. */
+  readonly logger: ApiLogger;
+
+  /** Duration of every response received through this helper. */
+  readonly latency = new LatencyTracker();
+
+  constructor(readonly options: ApiHelperOptions = {}) {
+    this.logger = new ApiLogger(options.logger);
+  }
+
+  /**
+   * Returns the request context shared by every call made through this
+   * helper, creating it on first use. Cookies set by one response are sent
+   * with the next request.
+   */
+  async getContext(): Promise<APIRequestContext> {
+    if (!this.context) {
+      const { baseURL, headers, ignoreHTTPSErrors, timeout, proxy } =
+        this.options;
+      this.context = request.newContext({
+        baseURL,
+        // The default content type is applied per request, to JSON bodies.
+        extraHTTPHeaders: withoutContentType(headers),
+        ignoreHTTPSErrors,
+        timeout,
+        proxy,
+        storageState: this.options.storageState,
+      });
+    }
+    return await this.context;
+  }
+
+  /**
+   * Resolves a request URL against `baseURL`. Absolute URLs are returned
+   * unchanged; relative paths such as `/auth/me` are appended to the base URL,
+   * preserving any path prefix it carries.
+   */
+  resolveUrl(requestUrl: string): string {
+    if (/^[a-z][a-z\d+\-.]*:\/\//i.test(requestUrl) || !this.options.baseURL) {
+      return requestUrl;
+    }
+    return `${this.options.baseURL.replace(/\/+$/, "")}/${requestUrl.replace(
+      /^\/+/,
+      ""
+    )}`;
+  }
+
+  /** Path of `url` relative to the path of `baseURL`, without the query. */
+  private relativePath(url: string) {
+    const path = new URL(url, "http://localhost").pathname;
+    const basePath = this.options.baseURL
+      ? new URL(this.options.baseURL).pathname.replace(/\/+$/, "")
+      : "";
+    return basePath && path.startsWith(basePath)
+      ? path.slice(basePath.length) || "/"
+      : path;
+  }
+
+  /**
+   * Throws a `LatencyBudgetError` listing every endpoint whose measured
+   * latencies exceed `budgets` (default: the helper's `latencyBudgets`).
+   */
+  assertLatencyBudgets(budgets = this.options.latencyBudgets ?? {}) {
+    this.latency.assertWithin(budgets);
+  }
+
+  /** Disposes the shared request context. The next request creates a new one. */
+  async dispose() {
+    if (!this.context) {
+      return;
+    }
+    const context = this.context;
+    this.context = undefined;
+    await (await context).dispose();
+  }
+
+  /**
+   * The cassette for the running test, or `undefined` when cassettes are off.
+   * Outside a test an explicit `cassette.file` is required.
+   */
+  private cassette(): Cassette | undefined {
+    const options = this.options.cassette;
+    if (!options || options.mode === "off") {
+      return undefined;
+    }
+    const testInfo = currentTestInfo();
+    const filePath =
+      options.file ?? (testInfo && cassettePath(testInfo, options.dir));
+    if (!filePath) {
+      throw new Error(
+        "Cassettes need a running test or an explicit `cassette.file`"
+      );
+    }
+    return openCassette(filePath, { ...options, mode: options.mode }, testInfo);
+  }
+
+  /**
+   * Sends the request and wraps the result in an `ApiResponse`. When a
+   * `responseSchema` is given the body is validated against it (per status
+   * code when a status map is used) and replaced by the parsed value.
+   */
+  async makeRequest<S extends ResponseSchema | undefined = undefined>(
     method: string,
     requestUrl: string,
     headers?: any,
     requestBody?: any,
-    queryParams?: any
-  ) {
-    const contextRequest = await request.newContext();
-    const options: Record<string, any> = { headers };
-    // Apend query parameters to the URL if provided
-    if (queryParams && Object.keys(queryParams).length > 0) {
-      const url = new URL(requestUrl);
-      Object.keys(queryParams).forEach((key) => {
-        url.searchParams.append(key, queryParams[key]);
-      });
-      requestUrl = url.toString();
-      console.log(`Request Url; ${requestUrl}`);
+    queryParams?: any,
+    responseSchema?: S,
+    requestOptions: RequestOptions = {}
+  ): Promise<ApiResponse<InferResponseBody<S>>> {
+    if (requestOptions.querySchema) {
+      const result = requestOptions.querySchema.safeParse(queryParams ?? {});
+      if (!result.success) {
+        throw new RequestValidationError(
+          method.toUpperCase(),
+          this.resolveUrl(requestUrl),
+          "query",
+          result.error.issues,
+          queryParams
+        );
+      }
+      queryParams = result.data;
     }
+    const apiResponse = await this.sendRequest(
+      method,
+      requestUrl,
+      headers,
+      requestBody,
+      queryParams,
+      requestOptions
+    );
+    if (responseSchema) {
+      apiResponse.body = validateResponseBody(
+        responseSchema,
+        apiResponse.method,
+        apiResponse.url,
+        apiResponse.status,
+        apiResponse.body
+      );
+    }
+    return apiResponse;
+  }
+
+  /**
+   * Performs the HTTP exchange without any response validation, retrying
+   * transient failures according to the retry policy. Subclasses override
+   * this to decorate every request (auth, ...).
+   */
+  protected async sendRequest(
+    method: string,
+    requestUrl: string,
+    headers?: any,
+    requestBody?: any,
+    queryParams?: any,
+    requestOptions: RequestOptions = {}
+  ): Promise<ApiResponse> {
+    const policy = resolveRetryPolicy(this.options.retry, requestOptions.retry);
+    const maxAttempts = canRetryMethod(policy, method) ? policy.maxAttempts : 1;
+    const attempts: RetryAttempt[] = [];
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+      let response: ApiResponse | undefined;
+      let error: unknown;
+      try {
+        response = await this.performRequest(
+          method,
+          requestUrl,
+          headers,
+          requestBody,
+          queryParams,
+          requestOptions.query
+        );
+      } catch (e) {
+        error = e;
+      }
+      const record: RetryAttempt = {
+        attempt,
+        status: response?.status,
+        error:
+          error === undefined
+            ? undefined
+            : error instanceof Error
+            ? error.message.split("\n")[0]
+            : String(error),
+        elapsedMs: Date.now() - startedAt,
+      };
+      attempts.push(record);
+      const retryable = response
+        ? policy.retryOnStatuses.includes(response.status)
+        : isRetryableError(policy, error);
+      if (retryable && attempt < maxAttempts) {
+        record.delayMs = backoffDelay(
+          policy,
+          attempt,
+          response?.headers["retry-after"]
+        );
+        currentTestInfo()?.annotations.push({
+          type: "retry",
+          description: `${method.toUpperCase()} ${requestUrl} ${describeAttempt(
+            record
+          )}`,
+        });
+        await sleep(record.delayMs);
+        continue;
+      }
+      if (response) {
+        response.attempts = attempts;
+        if (this.options.recordExchanges !== false) {
+          this.latency.record({
+            method: response.method,
+            path: this.relativePath(response.url),
+            durationMs: response.elapsedMs,
+          });
+        }
+        this.options.contract?.check(response, currentTestInfo());
+        return response;
+      }
+      if (attempts.length > 1 && error instanceof Error) {
+        error.message += `\n${method.toUpperCase()} ${requestUrl} failed after ${
+          attempts.length
+        } attempts:\n${attempts
+          .map((a) => `  - ${describeAttempt(a)}`)
+          .join("\n")}`;
+      }
+      throw error;
+    }
+  }
+
+  /** Performs a single HTTP exchange. */
+  private async performRequest(
+    method: string,
+    requestUrl: string,
+    headers?: any,
+    requestBody?: any,
+    queryParams?: any,
+    querySerialization?: QuerySerializationOptions
+  ): Promise<ApiResponse> {
+    const contextRequest = await this.getContext();
+    requestUrl = appendQuery(this.resolveUrl(requestUrl), queryParams, {
+      ...this.options.query,
+      ...querySerialization,
+    });
+    const options: Record<string, any> = { headers };
     if (requestBody) {
-      options.data = requestBody;
+      Object.assign(
+        options,
+        toRequestOptions(
+          requestBody,
+          headers,
+          contentTypeOf(this.options.headers)
+        )
+      );
     }
 
-    let response;
-    switch (method.toUpperCase()) {
+    const verb = method.toUpperCase();
+    const startedAt = Date.now();
+    const exchange = {
+      startedAt: new Date(startedAt).toISOString(),
+      request: {
+        method: verb,
+        url: requestUrl,
+        headers: {
+          ...withoutContentType(this.options.headers),
+          ...options.headers,
+        },
+        body: describeBody(requestBody),
+        bodyType: bodyType(requestBody),
+      },
+    };
+    const cassette = this.cassette();
+    const cassetteRequest = cassette?.describeRequest(
+      verb,
+      requestUrl,
+      exchange.request.headers,
+      exchange.request.body
+    );
+    let apiResponse: ApiResponse;
+    try {
+      if (cassette?.mode === "replay") {
+        apiResponse = fromCassette(
+          verb,
+          requestUrl,
+          cassette.find(cassetteRequest!, this.options.cassette?.match),
+          startedAt
+        );
+      } else {
+        apiResponse = await toApiResponse(
+          verb,
+          await this.send(contextRequest, verb, requestUrl, options),
+          startedAt
+        );
+        cassette?.record(
+          cassetteRequest!,
+          {
+            status: apiResponse.status,
+            statusText: apiResponse.statusText,
+            headers: apiResponse.headers,
+          },
+          apiResponse.rawBody
+        );
+      }
+    } catch (error) {
+      if (this.options.recordExchanges === false) {
+        throw error;
+      }
+      await this.logger.record(
+        {
+          ...exchange,
+          durationMs: Date.now() - startedAt,
+          error: String((error as Error).message ?? error).split("\n")[0],
+        },
+        currentTestInfo()
+      );
+      throw error;
+    }
+    if (this.options.recordExchanges === false) {
+      return apiResponse;
+    }
+    await this.logger.record(
+      {
+        ...exchange,
+        durationMs: apiResponse.elapsedMs,
+        response: {
+          status: apiResponse.status,
+          statusText: apiResponse.statusText,
+          headers: apiResponse.headers,
+          body: apiResponse.body,
+        },
+      },
+      currentTestInfo()
+    );
+    return apiResponse;
+  }
+
+  private async send(
+    contextRequest: APIRequestContext,
+    verb: string,
+    requestUrl: string,
+    options: Record<string, any>
+  ): Promise<APIResponse> {
+    switch (verb) {
       case "GET":
-        response = await contextRequest.get(requestUrl, options);
-        break;
+        return await contextRequest.get(requestUrl, options);
       case "POST":
-        response = await contextRequest.post(requestUrl, options);
-        break;
+        return await contextRequest.post(requestUrl, options);
       case "PUT":
-        response = await contextRequest.put(requestUrl, options);
-        break;
+        return await contextRequest.put(requestUrl, options);
       case "PATCH":
-        response = await contextRequest.patch(requestUrl, options);
-        break;
+        return await contextRequest.patch(requestUrl, options);
       case "DELETE":
-        response = await contextRequest.delete(requestUrl, options);
-        break;
+        return await contextRequest.delete(requestUrl, options);
       default:
-        throw new Error(`Unsupported method: ${method}`);
+        throw new Error(`Unsupported method: ${verb}`);
     }
-    if (!response.ok()) {
-      console.warn(`Request failed with status ${response.status()}`);
+  }
+
+  /**
+   * Same as `makeRequest` but resolves with the parsed body only, for callers
+   * that do not care about status, headers or timing.
+   */
+  async makeRequestBody<S extends ResponseSchema | undefined = undefined>(
+    method: string,
+    requestUrl: string,
+    headers?: any,
+    requestBody?: any,
+    queryParams?: any,
+    responseSchema?: S,
+    requestOptions?: RequestOptions
+  ) {
+    const response = await this.makeRequest(
+      method,
+      requestUrl,
+      headers,
+      requestBody,
+      queryParams,
+      responseSchema,
+      requestOptions
+    );
+    return response.body;
+  }
+
+  /**
+   * Iterates over the pages of a list endpoint such as `/carts`, following
+   * the given pagination strategy:
+   * `for await (const page of helper.paginate("/carts", { strategy: { type: "offset", limit: 10 } }))`.
+   */
+  paginate<S extends z.ZodTypeAny | undefined = undefined>(
+    requestUrl: string,
+    options: PaginateOptions<S>
+  ): AsyncGenerator<Page<PageItem<S>>> {
+    return paginate(this, requestUrl, options);
+  }
+
+  /**
+   * Collects the items of every page and checks that their count matches the
+   * total reported by the API (disable with `verifyTotal: false`).
+   */
+  async collectAll<S extends z.ZodTypeAny | undefined = undefined>(
+    requestUrl: string,
+    options: PaginateOptions<S> & { verifyTotal?: boolean }
+  ): Promise<PaginatedResult<PageItem<S>>> {
+    return await collectAll(this, requestUrl, options);
+  }
+
+  /**
+   * GETs `requestUrl` and writes the raw body to `filePath`. Resolves with the
+   * response and the saved file's size and SHA-256; error statuses throw
+   * instead of saving the error page. The body is not streamed: Playwright's
+   * request context buffers it whole, so it is held in memory as `rawBody`
+   * (and, for text, decoded again as `body`) before it is written. Keep
+   * downloads to sizes that fit comfortably in the worker's memory.
+   */
+  async download(
+    requestUrl: string,
+    filePath: string,
+    headers?: any,
+    queryParams?: any,
+    requestOptions?: RequestOptions
+  ): Promise<ApiResponse<Buffer | string> & { file: SavedBody }> {
+    const response = await this.makeRequest(
+      "GET",
+      requestUrl,
+      headers,
+      undefined,
+      queryParams,
+      undefined,
+      requestOptions
+    );
+    if (!response.ok) {
+      throw new Error(
+        `Download of ${response.url} failed with status ${response.status} ${response.statusText}`
+      );
     }
-    return await response.json();
+    return { ...response, file: saveBody(response.rawBody, filePath) };
   }
 
-  async getRequest(requestUrl: string, headers?: any, queryParams?: any) {
+  async getRequest<S extends ResponseSchema | undefined = undefined>(
+    requestUrl: string,
+    headers?: any,
+    queryParams?: any,
+    responseSchema?: S,
+    requestOptions?: RequestOptions
+  ) {
     return await this.makeRequest(
       "GET",
       requestUrl,
       headers,
       undefined,
-      queryParams
+      queryParams,
+      responseSchema,
+      requestOptions
     );
   }
-  async postRequest(
+  async postRequest<S extends ResponseSchema | undefined = undefined>(
     requestUrl: string,
     headers?: any,
     requestBody?: any,
-    queryParams?: any
+    queryParams?: any,
+    responseSchema?: S,
+    requestOptions?: RequestOptions
   ) {
     return await this.makeRequest(
       "POST",
       requestUrl,
       headers,
       requestBody,
-      queryParams
+      queryParams,
+      responseSchema,
+      requestOptions
     );
   }
 
-  async putRequest(
+  async putRequest<S extends ResponseSchema | undefined = undefined>(
     requestUrl: string,
     headers?: any,
     requestBody?: any,
-    queryParams?: any
+    queryParams?: any,
+    responseSchema?: S,
+    requestOptions?: RequestOptions
   ) {
     return await this.makeRequest(
       "PUT",
       requestUrl,
       headers,
       requestBody,
-      queryParams
+      queryParams,
+      responseSchema,
+      requestOptions
     );
   }
-  async patchRequest(
+  async patchRequest<S extends ResponseSchema | undefined = undefined>(
     requestUrl: string,
     headers?: any,
     requestBody?: any,
-    queryParams?: any
+    queryParams?: any,
+    responseSchema?: S,
+    requestOptions?: RequestOptions
   ) {
     return await this.makeRequest(
       "PATCH",
       requestUrl,
       headers,
       requestBody,
-      queryParams
+      queryParams,
+      responseSchema,
+      requestOptions
     );
   }
-  async deleteRequest(
+  async deleteRequest<S extends ResponseSchema | undefined = undefined>(
     requestUrl: string,
     headers?: any,
     requestBody?: any,
-    queryParams?: any
+    queryParams?: any,
+    responseSchema?: S,
+    requestOptions?: RequestOptions
   ) {
     return await this.makeRequest(
       "DELETE",
       requestUrl,
       headers,
       requestBody,
-      queryParams
+      queryParams,
+      responseSchema,
+      requestOptions
     );
   }
 }
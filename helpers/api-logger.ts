@@ -0,0 +1,271 @@
+import type { TestInfo } from "@playwright/test";
+import type { RequestBodyType } from "./request-body";
+
+/** One recorded request/response pair, after redaction. */
+export interface ApiExchange {
+  startedAt: string;
+  durationMs: number;
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: unknown;
+    /** How `body` was encoded; JSON when omitted. */
+    bodyType?: RequestBodyType;
+  };
+  response?: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body?: unknown;
+  };
+  error?: string;
+}
+
+export interface ApiLoggerOptions {
+  /**
+   * Header, body and query keys whose values are masked, matched
+   * case-insensitively. Replaces `DEFAULT_REDACTED_KEYS` when given.
+   */
+  redact?: string[];
+  /**
+   * Attach exchanges to the test as JSON and cURL: `"all"` as they are made,
+   * `"failures"` (default) once a test fails, see `attachOnFailure`, or `"off"`.
+   */
+  attach?: "all" | "failures" | "off";
+  /** Print a one-line summary: `"all"` exchanges, `"errors"` only or `"off"` (default). */
+  console?: "all" | "errors" | "off";
+  /** Bodies longer than this many characters are truncated (default 10000). */
+  maxBodyLength?: number;
+}
+
+export const DEFAULT_REDACTED_KEYS = [
+  "authorization",
+  "cookie",
+  "set-cookie",
+  "accessToken",
+  "refreshToken",
+  "token",
+  "password",
+];
+
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Masks secrets in a text body: JSON is redacted like an object, and
+ * `key=value&...` pairs (form or query syntax) have the values of `keys`
+ * replaced. Other text is returned unchanged.
+ */
+export function redactText(text: string, keys: string[]): string {
+  if (/^\s*[[{]/.test(text)) {
+    try {
+      return JSON.stringify(redact(JSON.parse(text), keys));
+    } catch {
+      return text;
+    }
+  }
+  if (!/^[^=&\s]+=[^&\s]*(&[^=&\s]+=[^&\s]*)*$/.test(text)) {
+    return text;
+  }
+  const lowerKeys = keys.map((key) => key.toLowerCase());
+  return text
+    .split("&")
+    .map((pair) => {
+      const name = pair.slice(0, pair.indexOf("="));
+      let decoded = name;
+      try {
+        decoded = decodeURIComponent(name.replace(/\+/g, " "));
+      } catch {
+        // Keep the raw name when it is not valid percent-encoding.
+      }
+      return lowerKeys.includes(decoded.toLowerCase())
+        ? `${name}=${encodeURIComponent(REDACTED)}`
+        : pair;
+    })
+    .join("&");
+}
+
+/**
+ * Deep copy of `value` with every property named in `keys` masked. A string
+ * `value` is treated as a text body; see `redactText`.
+ */
+export function redact(value: unknown, keys: string[]): unknown {
+  if (typeof value === "string") {
+    return redactText(value, keys);
+  }
+  const lowerKeys = keys.map((key) => key.toLowerCase());
+  const walk = (current: unknown): unknown => {
+    if (Array.isArray(current)) {
+      return current.map(walk);
+    }
+    if (current && typeof current === "object" && !Buffer.isBuffer(current)) {
+      return Object.fromEntries(
+        Object.entries(current).map(([key, nested]) => [
+          key,
+          lowerKeys.includes(key.toLowerCase()) ? REDACTED : walk(nested),
+        ])
+      );
+    }
+    return current;
+  };
+  return walk(value);
+}
+
+/** Masks query parameters named in `keys`. */
+export function redactUrl(url: string, keys: string[]): string {
+  const lowerKeys = keys.map((key) => key.toLowerCase());
+  try {
+    const parsed = new URL(url);
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (lowerKeys.includes(key.toLowerCase())) {
+        parsed.searchParams.set(key, REDACTED);
+      }
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function shellQuote(value: string) {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/** Renders a recorded request as a cURL command that reproduces it. */
+export function toCurl(exchange: ApiExchange): string {
+  const { method, url, headers, body, bodyType = "json" } = exchange.request;
+  const parts = [`curl -X ${method} ${shellQuote(url)}`];
+  for (const [name, value] of Object.entries(headers)) {
+    parts.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+  }
+  if (body === undefined || body === null) {
+    return parts.join(" \\\n  ");
+  }
+  if (bodyType === "form" || bodyType === "multipart") {
+    for (const [name, value] of Object.entries(body as object)) {
+      const file = value && typeof value === "object" ? value : undefined;
+      parts.push(
+        bodyType === "form"
+          ? `--data-urlencode ${shellQuote(`${name}=${value}`)}`
+          : `-F ${shellQuote(
+              file ? `${name}=@${file.path ?? file.file}` : `${name}=${value}`
+            )}`
+      );
+    }
+  } else if (bodyType === "raw" && typeof body === "object") {
+    parts.push(`--data-binary @body.bin`);
+  } else {
+    parts.push(
+      `--data-raw ${shellQuote(
+        typeof body === "string" ? body : JSON.stringify(body)
+      )}`
+    );
+  }
+  return parts.join(" \\\n  ");
+}
+
+/**
+ * Records every exchange made through an `ApiHelper`, masks secrets and
+ * attaches the exchanges to the test as JSON plus a cURL command.
+ */
+export class ApiLogger {
+  readonly exchanges: ApiExchange[] = [];
+  private readonly redactedKeys: string[];
+
+  constructor(private readonly options: ApiLoggerOptions = {}) {
+    this.redactedKeys = options.redact ?? DEFAULT_REDACTED_KEYS;
+  }
+
+  private formatBody(body: unknown): unknown {
+    if (Buffer.isBuffer(body)) {
+      return `<${body.length} bytes>`;
+    }
+    const redacted = redact(body, this.redactedKeys);
+    const maxLength = this.options.maxBodyLength ?? 10000;
+    if (typeof redacted === "string" && redacted.length > maxLength) {
+      return `${redacted.slice(0, maxLength)}... (${
+        redacted.length - maxLength
+      } more characters)`;
+    }
+    return redacted;
+  }
+
+  /** Redacts and stores `exchange`, then reports it to the console and test. */
+  async record(exchange: ApiExchange, testInfo?: TestInfo) {
+    const redacted: ApiExchange = {
+      ...exchange,
+      request: {
+        ...exchange.request,
+        url: redactUrl(exchange.request.url, this.redactedKeys),
+        headers: redact(exchange.request.headers, this.redactedKeys) as Record<
+          string,
+          string
+        >,
+        body: this.formatBody(exchange.request.body),
+      },
+      response: exchange.response && {
+        ...exchange.response,
+        headers: redact(exchange.response.headers, this.redactedKeys) as Record<
+          string,
+          string
+        >,
+        body: this.formatBody(exchange.response.body),
+      },
+    };
+    this.exchanges.push(redacted);
+
+    const failed =
+      redacted.error !== undefined ||
+      (redacted.response !== undefined && redacted.response.status >= 400);
+    const mode = this.options.console ?? "off";
+    if (mode === "all" || (mode === "errors" && failed)) {
+      console.log(ApiLogger.summary(redacted));
+    }
+
+    if (testInfo && this.options.attach === "all") {
+      await this.attach(redacted, this.exchanges.length, testInfo);
+    }
+  }
+
+  /**
+   * Attaches every recorded exchange when the test did not end as expected
+   * and `attach` is `"failures"`. The fixtures call this after each test.
+   */
+  async attachOnFailure(testInfo: TestInfo) {
+    if (
+      (this.options.attach ?? "failures") !== "failures" ||
+      testInfo.status === testInfo.expectedStatus
+    ) {
+      return;
+    }
+    for (const [index, exchange] of this.exchanges.entries()) {
+      await this.attach(exchange, index + 1, testInfo);
+    }
+  }
+
+  private async attach(
+    exchange: ApiExchange,
+    position: number,
+    testInfo: TestInfo
+  ) {
+    const name = `${position} ${exchange.request.method} ${
+      new URL(exchange.request.url, "http://localhost").pathname
+    }`;
+    await testInfo.attach(`${name}.json`, {
+      body: JSON.stringify(exchange, null, 2),
+      contentType: "application/json",
+    });
+    await testInfo.attach(`${name}.curl`, {
+      body: toCurl(exchange),
+      contentType: "text/plain",
+    });
+  }
+
+  /** `POST https://dummyjson.com/auth/login -> 200 OK (123ms)` */
+  static summary(exchange: ApiExchange) {
+    const outcome = exchange.response
+      ? `${exchange.response.status} ${exchange.response.statusText}`
+      : `failed: ${exchange.error}`;
+    return `${exchange.request.method} ${exchange.request.url} -> ${outcome} (${exchange.durationMs}ms)`;
+  }
+}
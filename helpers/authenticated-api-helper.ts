@@ -0,0 +1,167 @@
+import { z } from "zod";
+import {
+  LOGIN_API_SCHEMA,
+  LoginCredentials,
+  REFRESH_TOKEN_SCHEMA,
+} from "../schemas/schema";
+import {
+  ApiHelper,
+  ApiHelperOptions,
+  ApiResponse,
+  RequestOptions,
+} from "./api-helper";
+import { validateResponseBody } from "./schema-validation";
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface AuthenticatedApiHelperOptions extends ApiHelperOptions {
+  loginPath?: string;
+  refreshPath?: string;
+  /** Called with the new token pair after every successful refresh. */
+  onTokensRefreshed?: (tokens: TokenPair) => void | Promise<void>;
+}
+
+export class TokenRefreshError extends Error {
+  constructor(readonly url: string, readonly status: number, body: unknown) {
+    super(
+      `Token refresh failed (status ${status}) for POST ${url}: ${JSON.stringify(
+        body
+      )}`
+    );
+    this.name = "TokenRefreshError";
+  }
+}
+
+function hasAuthorizationHeader(headers?: Record<string, string>) {
+  return Object.keys(headers ?? {}).some(
+    (name) => name.toLowerCase() === "authorization"
+  );
+}
+
+function validated<S extends z.ZodTypeAny>(
+  response: ApiResponse,
+  schema: S
+): ApiResponse<z.infer<S>> {
+  response.body = validateResponseBody(
+    schema,
+    response.method,
+    response.url,
+    response.status,
+    response.body
+  );
+  return response;
+}
+
+/**
+ * `ApiHelper` that attaches `Authorization: Bearer <accessToken>` to every
+ * request. When a request comes back `401`, the stored refresh token is
+ * exchanged for a new token pair and the request is retried once; requests
+ * that fail together share one refresh. Requests that set their own
+ * `Authorization` header are sent untouched.
+ */
+export class AuthenticatedApiHelper extends ApiHelper {
+  private tokenPair?: TokenPair;
+  private refreshing?: Promise<ApiResponse<TokenPair>>;
+
+  constructor(readonly options: AuthenticatedApiHelperOptions = {}) {
+    super(options);
+  }
+
+  /** The current token pair. Throws if `login` has not been called. */
+  get tokens(): TokenPair {
+    if (!this.tokenPair) {
+      throw new Error("AuthenticatedApiHelper has no tokens: call login first");
+    }
+    return { ...this.tokenPair };
+  }
+
+  set tokens(tokens: TokenPair) {
+    this.tokenPair = { ...tokens };
+  }
+
+  /** Logs in with `credentials` and stores the returned token pair. */
+  async login(credentials: LoginCredentials) {
+    const response = validated(
+      await this.postWithoutToken(
+        this.options.loginPath ?? "/auth/login",
+        credentials
+      ),
+      LOGIN_API_SCHEMA
+    );
+    this.tokens = response.body;
+    return response;
+  }
+
+  /**
+   * Exchanges the stored refresh token for a new token pair. Calls made
+   * while a refresh is in flight wait for it instead of sending the same
+   * refresh token again. Throws a `TokenRefreshError` when the refresh is
+   * rejected.
+   */
+  async refresh(): Promise<ApiResponse<TokenPair>> {
+    this.refreshing ??= this.refreshTokens().finally(() => {
+      this.refreshing = undefined;
+    });
+    return await this.refreshing;
+  }
+
+  private async refreshTokens() {
+    const sent = await this.postWithoutToken(
+      this.options.refreshPath ?? "/auth/refresh",
+      { refreshToken: this.tokens.refreshToken }
+    );
+    if (!sent.ok) {
+      throw new TokenRefreshError(sent.url, sent.status, sent.body);
+    }
+    const response = validated(sent, REFRESH_TOKEN_SCHEMA);
+    this.tokens = response.body;
+    await this.options.onTokensRefreshed?.(this.tokens);
+    return response;
+  }
+
+  private async postWithoutToken(path: string, requestBody: unknown) {
+    return await super.sendRequest("POST", path, {}, requestBody);
+  }
+
+  protected async sendRequest(
+    method: string,
+    requestUrl: string,
+    headers?: any,
+    requestBody?: any,
+    queryParams?: any,
+    requestOptions?: RequestOptions
+  ): Promise<ApiResponse> {
+    if (!this.tokenPair || hasAuthorizationHeader(headers)) {
+      return await super.sendRequest(
+        method,
+        requestUrl,
+        headers,
+        requestBody,
+        queryParams,
+        requestOptions
+      );
+    }
+    const { accessToken } = this.tokens;
+    const send = () =>
+      super.sendRequest(
+        method,
+        requestUrl,
+        { ...headers, Authorization: `Bearer ${this.tokens.accessToken}` },
+        requestBody,
+        queryParams,
+        requestOptions
+      );
+    const response = await send();
+    if (response.status !== 401) {
+      return response;
+    }
+    // Another request may already have refreshed the token this one used.
+    if (this.tokens.accessToken === accessToken) {
+      await this.refresh();
+    }
+    return await send();
+  }
+}
@@ -0,0 +1,60 @@
+import { BrowserContextOptions } from "@playwright/test";
+
+/** The object form of Playwright's `storageState` option. */
+export type StorageState = Exclude<
+  BrowserContextOptions["storageState"],
+  string | undefined
+>;
+
+export interface BrowserSessionOptions {
+  /** Web app URL; its origin receives the localStorage entries. */
+  baseURL: string;
+  /** Domain of the cookies (default: the host of `baseURL`). */
+  cookieDomain?: string;
+  /** Cookie name → login response field. */
+  cookies: Record<string, string>;
+  /** localStorage key → login response field; objects are stored as JSON. */
+  localStorage: Record<string, string>;
+}
+
+/**
+ * Converts a login response (tokens and profile) into a storage state that
+ * starts the browser already signed in. Throws when a configured field is
+ * missing from the response.
+ */
+export function browserStorageState(
+  login: Record<string, unknown>,
+  options: BrowserSessionOptions
+): StorageState {
+  const { hostname, origin, protocol } = new URL(options.baseURL);
+  const missing = [
+    ...Object.values(options.cookies),
+    ...Object.values(options.localStorage),
+  ].filter((field) => login[field] === undefined || login[field] === null);
+  if (missing.length) {
+    throw new Error(
+      `Login response has no ${[...new Set(missing)].join(
+        ", "
+      )} for the browser session`
+    );
+  }
+  const asString = (value: unknown) =>
+    typeof value === "string" ? value : JSON.stringify(value);
+
+  const localStorage = Object.entries(options.localStorage).map(
+    ([name, field]) => ({ name, value: asString(login[field]) })
+  );
+  return {
+    cookies: Object.entries(options.cookies).map(([name, field]) => ({
+      name,
+      value: asString(login[field]),
+      domain: options.cookieDomain ?? hostname,
+      path: "/",
+      expires: -1,
+      httpOnly: false,
+      secure: protocol === "https:",
+      sameSite: "Lax" as const,
+    })),
+    origins: localStorage.length ? [{ origin, localStorage }] : [],
+  };
+}
@@ -0,0 +1,355 @@
+import type { TestInfo } from "@playwright/test";
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { DEFAULT_REDACTED_KEYS, redact, redactUrl } from "./api-logger";
+
+/**
+ * `record` sends requests and saves every exchange to the test's cassette,
+ * `replay` answers from the cassette without touching the network and `off`
+ * disables cassettes.
+ */
+export type CassetteMode = "record" | "replay" | "off";
+
+/** Which parts of a request must be equal for a recorded exchange to match. */
+export interface CassetteMatchRules {
+  method: boolean;
+  path: boolean;
+  query: boolean;
+  /** Compare a hash of the (redacted) request body. */
+  body: boolean;
+  /** Compare request headers, except those in `ignoreHeaders`. */
+  headers: boolean;
+  ignoreHeaders: string[];
+}
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  /** Directory holding one cassette per test (default `cassettes`). */
+  dir?: string;
+  /** Use this cassette file for every test instead of one per test. */
+  file?: string;
+  match?: Partial<CassetteMatchRules>;
+  /** Keys scrubbed before writing; defaults to `DEFAULT_REDACTED_KEYS`. */
+  redact?: string[];
+}
+
+export const DEFAULT_MATCH_RULES: CassetteMatchRules = {
+  method: true,
+  path: true,
+  query: true,
+  body: true,
+  headers: false,
+  ignoreHeaders: [
+    "authorization",
+    "cookie",
+    "user-agent",
+    "content-length",
+    "accept-encoding",
+    "host",
+  ],
+};
+
+export interface CassetteRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  bodyHash?: string;
+}
+
+export interface CassetteResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /** `json` bodies are stored parsed, `base64` is used for binary bodies. */
+  encoding: "json" | "utf8" | "base64";
+  body: unknown;
+}
+
+export interface CassetteInteraction {
+  recordedAt: string;
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+export interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/** Thrown in replay mode when no recorded exchange matches a request. */
+export class CassetteMismatchError extends Error {
+  constructor(
+    readonly cassettePath: string,
+    readonly request: CassetteRequest,
+    candidates: CassetteRequest[]
+  ) {
+    super(
+      `No recorded response in ${cassettePath} for ${request.method} ${
+        request.url
+      }${
+        request.bodyHash ? ` (body ${request.bodyHash.slice(0, 12)})` : ""
+      }.\n` +
+        (candidates.length
+          ? `Recorded requests:\n${candidates
+              .map(
+                (c) =>
+                  `  - ${c.method} ${c.url}${
+                    c.bodyHash ? ` (body ${c.bodyHash.slice(0, 12)})` : ""
+                  }`
+              )
+              .join("\n")}`
+          : "The cassette is empty or missing.") +
+        "\nRe-record it with API_CASSETTE=record."
+    );
+    this.name = "CassetteMismatchError";
+  }
+}
+
+/** Reads cassette options from `API_CASSETTE` and `API_CASSETTE_DIR`. */
+export function cassetteOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): CassetteOptions | undefined {
+  const mode = env.API_CASSETTE;
+  if (!mode || mode === "off") {
+    return undefined;
+  }
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error(
+      `API_CASSETTE must be "record", "replay" or "off", got "${mode}"`
+    );
+  }
+  return { mode, dir: env.API_CASSETTE_DIR };
+}
+
+function slug(value: string) {
+  return value
+    .replace(/[^a-z0-9]+/gi, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+}
+
+/**
+ * `<dir>/<spec file>/<describe>-<title>.json`, relative to the project's
+ * test directory, so every test gets its own cassette.
+ */
+export function cassettePath(testInfo: TestInfo, dir = "cassettes") {
+  const specFile = path
+    .relative(testInfo.project.testDir, testInfo.file)
+    .replace(/\.[jt]s$/, "");
+  return path.join(
+    dir,
+    specFile,
+    `${slug(testInfo.titlePath.slice(1).join(" "))}.json`
+  );
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object" && !Buffer.isBuffer(value)) {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(",")}}`;
+  }
+  return Buffer.isBuffer(value)
+    ? JSON.stringify(value.toString("base64"))
+    : JSON.stringify(value) ?? "undefined";
+}
+
+/** SHA-256 of a request body, independent of object key order. */
+export function hashBody(body: unknown): string | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  return createHash("sha256").update(stableStringify(body)).digest("hex");
+}
+
+function sortedQuery(url: URL) {
+  return [...url.searchParams.entries()]
+    .map(([key, value]) => `${key}=${value}`)
+    .sort()
+    .join("&");
+}
+
+function filteredHeaders(headers: Record<string, string>, ignore: string[]) {
+  const ignored = ignore.map((name) => name.toLowerCase());
+  return Object.fromEntries(
+    Object.entries(headers)
+      .map(([name, value]) => [name.toLowerCase(), value])
+      .filter(([name]) => !ignored.includes(name))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+/** Whether `recorded` satisfies `rules` for the outgoing `request`. */
+export function requestsMatch(
+  rules: CassetteMatchRules,
+  request: CassetteRequest,
+  recorded: CassetteRequest
+) {
+  const actual = new URL(request.url);
+  const expected = new URL(recorded.url);
+  return (
+    (!rules.method || request.method === recorded.method) &&
+    (!rules.path || actual.pathname === expected.pathname) &&
+    (!rules.query || sortedQuery(actual) === sortedQuery(expected)) &&
+    (!rules.body || request.bodyHash === recorded.bodyHash) &&
+    (!rules.headers ||
+      stableStringify(filteredHeaders(request.headers, rules.ignoreHeaders)) ===
+        stableStringify(filteredHeaders(recorded.headers, rules.ignoreHeaders)))
+  );
+}
+
+const openCassettes = new WeakMap<object, Map<string, Cassette>>();
+const outsideTests = {};
+
+/**
+ * Returns the cassette for `filePath`, shared by every helper used in the
+ * same test so that their exchanges end up in one file and replays consume
+ * recordings in order. A new test (or a retry) starts from a fresh recording.
+ */
+export function openCassette(
+  filePath: string,
+  options: CassetteOptions & { mode: Exclude<CassetteMode, "off"> },
+  testInfo?: TestInfo
+) {
+  const scope = testInfo ?? outsideTests;
+  let cassettes = openCassettes.get(scope);
+  if (!cassettes) {
+    cassettes = new Map();
+    openCassettes.set(scope, cassettes);
+  }
+  const key = `${options.mode}:${filePath}`;
+  let cassette = cassettes.get(key);
+  if (!cassette) {
+    cassette = new Cassette(filePath, options.mode, options);
+    cassettes.set(key, cassette);
+  }
+  return cassette;
+}
+
+/**
+ * One cassette file. Recorded exchanges are replayed in order: when the same
+ * request was recorded several times (e.g. `/auth/me` before and after a
+ * token refresh) each replay consumes the next recording, and the last one
+ * is reused once they are exhausted.
+ */
+export class Cassette {
+  readonly interactions: CassetteInteraction[];
+  private readonly redactedKeys: string[];
+  private readonly used = new Set<CassetteInteraction>();
+
+  constructor(
+    readonly filePath: string,
+    readonly mode: Exclude<CassetteMode, "off">,
+    options: Pick<CassetteOptions, "redact"> = {}
+  ) {
+    this.redactedKeys = options.redact ?? DEFAULT_REDACTED_KEYS;
+    this.interactions =
+      mode === "replay" && fs.existsSync(filePath)
+        ? (JSON.parse(fs.readFileSync(filePath, "utf-8")) as CassetteFile)
+            .interactions
+        : [];
+  }
+
+  /** Redacts an outgoing request and computes its body hash. */
+  describeRequest(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    body?: unknown
+  ): CassetteRequest {
+    const redactedBody = redact(body, this.redactedKeys);
+    return {
+      method: method.toUpperCase(),
+      url: redactUrl(url, this.redactedKeys),
+      headers: redact(headers, this.redactedKeys) as Record<string, string>,
+      body: Buffer.isBuffer(redactedBody)
+        ? `<${redactedBody.length} bytes>`
+        : redactedBody,
+      bodyHash: hashBody(redactedBody),
+    };
+  }
+
+  /** Returns the next recorded response for `request`. */
+  find(
+    request: CassetteRequest,
+    match: Partial<CassetteMatchRules> = {}
+  ): CassetteResponse {
+    const rules = { ...DEFAULT_MATCH_RULES, ...match };
+    const matching = this.interactions.filter((interaction) =>
+      requestsMatch(rules, request, interaction.request)
+    );
+    const next =
+      matching.find((interaction) => !this.used.has(interaction)) ??
+      matching[matching.length - 1];
+    if (!next) {
+      throw new CassetteMismatchError(
+        this.filePath,
+        request,
+        this.interactions.map((interaction) => interaction.request)
+      );
+    }
+    this.used.add(next);
+    return next.response;
+  }
+
+  /** Scrubs and appends an exchange, then rewrites the cassette file. */
+  record(
+    request: CassetteRequest,
+    response: Omit<CassetteResponse, "encoding" | "body">,
+    rawBody: Buffer
+  ) {
+    const contentType = response.headers["content-type"] ?? "";
+    let encoding: CassetteResponse["encoding"] = "base64";
+    let body: unknown = rawBody.toString("base64");
+    if (/[/+]json\b/i.test(contentType)) {
+      try {
+        body = redact(JSON.parse(rawBody.toString("utf-8")), this.redactedKeys);
+        encoding = "json";
+      } catch {
+        // Keep the raw bytes when the body is not valid JSON.
+      }
+    } else if (/^text\/|xml|html/i.test(contentType)) {
+      body = rawBody.toString("utf-8");
+      encoding = "utf8";
+    }
+    this.interactions.push({
+      recordedAt: new Date().toISOString(),
+      request,
+      response: {
+        ...response,
+        headers: redact(response.headers, this.redactedKeys) as Record<
+          string,
+          string
+        >,
+        encoding,
+        body,
+      },
+    });
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const file: CassetteFile = { version: 1, interactions: this.interactions };
+    fs.writeFileSync(this.filePath, `${JSON.stringify(file, null, 2)}\n`);
+  }
+
+  /** Restores the raw bytes of a recorded response body. */
+  static rawBody(response: CassetteResponse): Buffer {
+    switch (response.encoding) {
+      case "json":
+        return Buffer.from(JSON.stringify(response.body));
+      case "utf8":
+        return Buffer.from(response.body as string, "utf-8");
+      default:
+        return Buffer.from(response.body as string, "base64");
+    }
+  }
+}
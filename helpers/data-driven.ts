@@ -0,0 +1,172 @@
+import type { TestDetails } from "@playwright/test";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { formatZodIssues } from "./schema-validation";
+
+const ROOT_DIR = path.resolve(__dirname, "..");
+
+/** Thrown when a data file cannot be read or some of its rows are invalid. */
+export class DataFileError extends Error {
+  constructor(readonly file: string, readonly problems: string[]) {
+    super(`Invalid test data in ${file}:\n${problems.join("\n")}`);
+    this.name = "DataFileError";
+  }
+}
+
+/**
+ * Parses CSV text with a header row. Fields may be quoted (`"a, b"`, with
+ * `""` for a literal quote); empty fields are omitted from the row so that
+ * optional schema fields stay `undefined`.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+  const [header = [], ...rows] = records.filter((r) => r.some((f) => f.trim()));
+  const columns = header.map((column) => column.trim());
+  return rows.map((row) =>
+    Object.fromEntries(
+      columns
+        .map((column, index) => [column, row[index]?.trim() ?? ""])
+        .filter(([, value]) => value !== "")
+    )
+  );
+}
+
+/**
+ * Reads `file` (a JSON array or a CSV file, relative to the repository root)
+ * and validates every row against `schema`. CSV values are strings, so use
+ * `z.coerce` for numbers and booleans. All invalid rows are reported at once.
+ */
+export function loadDataRows<S extends z.ZodTypeAny>(
+  file: string,
+  schema: S
+): z.output<S>[] {
+  const filePath = path.resolve(ROOT_DIR, file);
+  const text = fs.readFileSync(filePath, "utf-8");
+  let rows: unknown[];
+  if (path.extname(file).toLowerCase() === ".csv") {
+    rows = parseCsv(text);
+  } else {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data)) {
+      throw new DataFileError(file, ["expected a JSON array of rows"]);
+    }
+    rows = data;
+  }
+
+  const problems: string[] = [];
+  const parsed = rows.map((row, index) => {
+    const result = schema.safeParse(row);
+    if (!result.success) {
+      problems.push(
+        `row ${index + 1}:\n${formatZodIssues(result.error.issues, row)}`
+      );
+    }
+    return result.data;
+  });
+  if (problems.length) {
+    throw new DataFileError(file, problems);
+  }
+  return parsed;
+}
+
+export interface DataDrivenOptions<S extends z.ZodTypeAny> {
+  /** JSON array or CSV file, relative to the repository root. */
+  file: string;
+  schema: S;
+  /**
+   * Test title per row: a template such as `"login as {username}"` or a
+   * function. Defaults to `row <n>`. Titles must be unique within the file.
+   */
+  title?: string | ((row: z.output<S>, index: number) => string);
+  tag?: string | string[];
+}
+
+/** One row of a data file, ready to be declared as a test. */
+export interface DataCase<T> {
+  title: string;
+  /** Tag and `data-row` annotation, passed as the test's details. */
+  details: TestDetails;
+  row: T;
+  index: number;
+}
+
+function rowTitle<S extends z.ZodTypeAny>(
+  title: DataDrivenOptions<S>["title"],
+  row: z.output<S>,
+  index: number
+) {
+  if (typeof title === "function") {
+    return title(row, index);
+  }
+  if (title) {
+    return title.replace(/\{(\w+)\}/g, (_, key: string) =>
+      String((row as Record<string, unknown>)?.[key] ?? "")
+    );
+  }
+  return `row ${index + 1}`;
+}
+
+/**
+ * Loads a data file as one case per row. Declaring a test per case in the
+ * spec gives each row its own result in the reports, located in the spec,
+ * and a failing row does not stop the others. Every case carries a
+ * `data-row` annotation pointing at its row:
+ *
+ * ```ts
+ * for (const { title, details, row } of dataCases({ file, schema, tag: "@API" })) {
+ *   test(title, details, async ({ apiHelper }) => { ... });
+ * }
+ * ```
+ */
+export function dataCases<S extends z.ZodTypeAny>(
+  options: DataDrivenOptions<S>
+): DataCase<z.output<S>>[] {
+  return loadDataRows(options.file, options.schema).map((row, index) => ({
+    title: rowTitle(options.title, row, index),
+    details: {
+      tag: options.tag,
+      annotation: {
+        type: "data-row",
+        description: `${options.file}#${index + 1}`,
+      },
+    },
+    row,
+    index,
+  }));
+}
@@ -0,0 +1,487 @@
+import { z } from "zod";
+import { formatIssuePath, formatZodIssues } from "./schema-validation";
+
+/** Deterministic pseudo-random numbers (mulberry32) for reproducible data. */
+export interface Rng {
+  readonly seed: number;
+  /** A float in [0, 1). */
+  next(): number;
+  /** An integer in [min, max], both inclusive. */
+  int(min: number, max: number): number;
+  pick<T>(values: readonly T[]): T;
+  /** Lower-case alphanumeric string of exactly `length` characters. */
+  string(length: number): string;
+}
+
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) =>
+    Math.floor(next() * (max - min + 1)) + min;
+  const pick = <T>(values: readonly T[]) => values[int(0, values.length - 1)];
+  const alphabet = "abcdefghijklmnopqrstuvwxyz0123456789";
+  return {
+    seed,
+    next,
+    int,
+    pick,
+    string: (length) =>
+      Array.from({ length }, () => pick(alphabet.split(""))).join(""),
+  };
+}
+
+/** A fresh random seed, for runs that do not pin `DATA_SEED`. */
+export function randomSeed() {
+  return Math.floor(Math.random() * 2 ** 31);
+}
+
+export type Overrides<T> = T extends readonly unknown[]
+  ? T
+  : T extends object
+  ? { [K in keyof T]?: Overrides<T[K]> }
+  : T;
+
+const WORDS = ["alpha", "bravo", "delta", "echo", "kilo", "lima", "nova"];
+
+function generateString(checks: z.ZodStringCheck[], rng: Rng): string {
+  const check = <K extends z.ZodStringCheck["kind"]>(kind: K) =>
+    checks.find((c) => c.kind === kind) as
+      | Extract<z.ZodStringCheck, { kind: K }>
+      | undefined;
+  const word = () => `${rng.pick(WORDS)}${rng.int(1, 999)}`;
+  if (check("email")) {
+    return `${word()}@example.com`;
+  }
+  if (check("url")) {
+    return `https://example.com/${word()}`;
+  }
+  if (check("uuid")) {
+    const hex = () => rng.int(0, 15).toString(16);
+    const part = (n: number) => Array.from({ length: n }, hex).join("");
+    return `${part(8)}-${part(4)}-4${part(3)}-a${part(3)}-${part(12)}`;
+  }
+  const date = new Date(Date.UTC(2020, 0, 1) + rng.int(0, 5 * 365) * 86400000);
+  if (check("datetime")) {
+    return date.toISOString();
+  }
+  if (check("date")) {
+    return date.toISOString().slice(0, 10);
+  }
+  const exact = check("length")?.value;
+  const min = check("min")?.value ?? 1;
+  const max = check("max")?.value ?? Math.max(min, 12);
+  const length = exact ?? rng.int(min, Math.max(min, Math.min(max, min + 11)));
+  const prefix = check("startsWith")?.value ?? "";
+  const suffix = check("endsWith")?.value ?? "";
+  return `${prefix}${rng.string(
+    Math.max(0, length - prefix.length - suffix.length)
+  )}${suffix}`;
+}
+
+function generateNumber(checks: z.ZodNumberCheck[], rng: Rng): number {
+  const integer = checks.some((c) => c.kind === "int");
+  let min = -1000;
+  let max = 1000;
+  for (const c of checks) {
+    const step = integer ? 1 : 0.01;
+    if (c.kind === "min") {
+      min = c.inclusive ? c.value : c.value + step;
+    } else if (c.kind === "max") {
+      max = c.inclusive ? c.value : c.value - step;
+    }
+  }
+  if (min === -1000 && max > 0) {
+    min = Math.min(0, max);
+  }
+  if (max === 1000 && min > max) {
+    max = min + 1000;
+  }
+  const multipleOf = checks.find((c) => c.kind === "multipleOf");
+  if (multipleOf && multipleOf.kind === "multipleOf") {
+    const factor = multipleOf.value;
+    return rng.int(Math.ceil(min / factor), Math.floor(max / factor)) * factor;
+  }
+  return integer
+    ? rng.int(Math.ceil(min), Math.floor(max))
+    : Math.round((min + rng.next() * (max - min)) * 100) / 100;
+}
+
+/**
+ * Generates a value that satisfies `schema`, honouring string formats and
+ * lengths, number ranges, enums, literals, array lengths and object shapes.
+ * Optional fields are included about half of the time.
+ */
+export function generate(schema: z.ZodTypeAny, rng: Rng): unknown {
+  if (schema instanceof z.ZodOptional) {
+    return generate(schema.unwrap(), rng);
+  }
+  if (schema instanceof z.ZodNullable || schema instanceof z.ZodBranded) {
+    return generate(schema.unwrap(), rng);
+  }
+  if (schema instanceof z.ZodDefault || schema instanceof z.ZodCatch) {
+    return generate(schema._def.innerType, rng);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return generate(schema.innerType(), rng);
+  }
+  if (schema instanceof z.ZodLazy) {
+    return generate(schema.schema, rng);
+  }
+  if (schema instanceof z.ZodPipeline) {
+    return generate(schema._def.in, rng);
+  }
+  if (schema instanceof z.ZodString) {
+    return generateString(schema._def.checks, rng);
+  }
+  if (schema instanceof z.ZodNumber) {
+    return generateNumber(schema._def.checks, rng);
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return rng.next() < 0.5;
+  }
+  if (schema instanceof z.ZodDate) {
+    return new Date(Date.UTC(2020, 0, 1) + rng.int(0, 5 * 365) * 86400000);
+  }
+  if (schema instanceof z.ZodEnum) {
+    return rng.pick(schema.options as string[]);
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    return rng.pick(Object.values(schema.enum));
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return schema.value;
+  }
+  if (schema instanceof z.ZodNull) {
+    return null;
+  }
+  if (schema instanceof z.ZodArray) {
+    const { exactLength, minLength, maxLength } = schema._def;
+    const min = minLength?.value ?? 1;
+    const length =
+      exactLength?.value ??
+      rng.int(min, Math.max(min, Math.min(maxLength?.value ?? 3, min + 2)));
+    return Array.from({ length }, () => generate(schema.element, rng));
+  }
+  if (schema instanceof z.ZodTuple) {
+    return (schema.items as z.ZodTypeAny[]).map((item) => generate(item, rng));
+  }
+  if (schema instanceof z.ZodObject) {
+    const value: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(schema.shape as z.ZodRawShape)) {
+      if (!field.isOptional() || rng.next() < 0.5) {
+        value[key] = generate(field, rng);
+      }
+    }
+    return value;
+  }
+  if (schema instanceof z.ZodRecord) {
+    return Object.fromEntries(
+      Array.from({ length: rng.int(1, 2) }, () => [
+        generate(schema.keySchema, rng),
+        generate(schema.valueSchema, rng),
+      ])
+    );
+  }
+  if (
+    schema instanceof z.ZodUnion ||
+    schema instanceof z.ZodDiscriminatedUnion
+  ) {
+    return generate(rng.pick(schema.options as z.ZodTypeAny[]), rng);
+  }
+  if (schema instanceof z.ZodIntersection) {
+    return {
+      ...(generate(schema._def.left, rng) as object),
+      ...(generate(schema._def.right, rng) as object),
+    };
+  }
+  return rng.string(8);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * Deep-merges `overrides` into `value`. Arrays are replaced, and an explicit
+ * `undefined` removes the field.
+ */
+export function applyOverrides(value: unknown, overrides: unknown): unknown {
+  if (!isPlainObject(value) || !isPlainObject(overrides)) {
+    return overrides === undefined ? value : overrides;
+  }
+  const merged: Record<string, unknown> = { ...value };
+  for (const [key, override] of Object.entries(overrides)) {
+    if (override === undefined) {
+      delete merged[key];
+    } else {
+      merged[key] = applyOverrides(merged[key], override);
+    }
+  }
+  return merged;
+}
+
+/** One deliberately invalid payload and what makes it invalid. */
+export interface InvalidVariant {
+  kind:
+    | "missing-field"
+    | "wrong-type"
+    | "extra-key"
+    | "invalid-format"
+    | "invalid-enum"
+    | "out-of-range";
+  /** Path of the broken field, e.g. `products[0].quantity`. */
+  path: string;
+  description: string;
+  value: unknown;
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodNullable ||
+    schema instanceof z.ZodBranded
+  ) {
+    return unwrap(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return unwrap(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return unwrap(schema.innerType());
+  }
+  return schema;
+}
+
+function wrongTypeFor(schema: z.ZodTypeAny): unknown {
+  if (schema instanceof z.ZodString || schema instanceof z.ZodEnum) {
+    return 12345;
+  }
+  if (schema instanceof z.ZodNumber || schema instanceof z.ZodBoolean) {
+    return "not-a-" + (schema instanceof z.ZodNumber ? "number" : "boolean");
+  }
+  if (schema instanceof z.ZodArray) {
+    return { not: "an array" };
+  }
+  return "not-an-object";
+}
+
+function setAt(root: unknown, path: (string | number)[], value: unknown) {
+  const copy = structuredClone(root);
+  if (path.length === 0) {
+    return value;
+  }
+  const parent = path
+    .slice(0, -1)
+    .reduce<any>((node, segment) => node[segment], copy);
+  const last = path[path.length - 1];
+  if (value === undefined) {
+    delete parent[last];
+  } else {
+    parent[last] = value;
+  }
+  return copy;
+}
+
+/**
+ * Builds invalid variants of the valid payload `base`: every required field
+ * missing, every field with the wrong type, an unknown key on strict objects,
+ * and broken formats, enum values and ranges. Only variants that `schema`
+ * actually rejects are returned.
+ */
+export function invalidVariants(
+  schema: z.ZodTypeAny,
+  base: unknown
+): InvalidVariant[] {
+  const variants: InvalidVariant[] = [];
+  const add = (
+    kind: InvalidVariant["kind"],
+    path: (string | number)[],
+    description: string,
+    value: unknown
+  ) => variants.push({ kind, path: formatIssuePath(path), description, value });
+
+  const walk = (
+    node: z.ZodTypeAny,
+    value: unknown,
+    path: (string | number)[]
+  ) => {
+    const inner = unwrap(node);
+    if (path.length > 0) {
+      add(
+        "wrong-type",
+        path,
+        `${formatIssuePath(path)} has the wrong type`,
+        setAt(base, path, wrongTypeFor(inner))
+      );
+    }
+    if (inner instanceof z.ZodObject && isPlainObject(value)) {
+      const shape = inner.shape as z.ZodRawShape;
+      for (const [key, field] of Object.entries(shape)) {
+        const fieldPath = [...path, key];
+        if (!field.isOptional()) {
+          add(
+            "missing-field",
+            fieldPath,
+            `required ${formatIssuePath(fieldPath)} is missing`,
+            setAt(base, fieldPath, undefined)
+          );
+        }
+        if (key in value) {
+          walk(field, value[key], fieldPath);
+        }
+      }
+      if (inner._def.unknownKeys === "strict") {
+        add(
+          "extra-key",
+          [...path, "unexpectedKey"],
+          `unknown key ${formatIssuePath([...path, "unexpectedKey"])}`,
+          setAt(base, [...path, "unexpectedKey"], "unexpected")
+        );
+      }
+    } else if (inner instanceof z.ZodArray && Array.isArray(value)) {
+      const min = inner._def.minLength?.value ?? inner._def.exactLength?.value;
+      if (min) {
+        add(
+          "out-of-range",
+          path,
+          `${formatIssuePath(path)} has fewer than ${min} items`,
+          setAt(base, path, [])
+        );
+      }
+      if (value.length > 0) {
+        walk(inner.element, value[0], [...path, 0]);
+      }
+    } else if (inner instanceof z.ZodString) {
+      const kinds = inner._def.checks.map((c) => c.kind);
+      const format = kinds.find((k) =>
+        ["email", "url", "uuid", "datetime", "date"].includes(k)
+      );
+      if (format) {
+        add(
+          "invalid-format",
+          path,
+          `${formatIssuePath(path)} is not a valid ${format}`,
+          setAt(base, path, "not a valid value")
+        );
+      }
+      const min = inner.minLength;
+      if (min) {
+        add(
+          "out-of-range",
+          path,
+          `${formatIssuePath(path)} is shorter than ${min}`,
+          setAt(base, path, "x".repeat(min - 1))
+        );
+      }
+      const max = inner.maxLength;
+      if (max !== null) {
+        add(
+          "out-of-range",
+          path,
+          `${formatIssuePath(path)} is longer than ${max}`,
+          setAt(base, path, "x".repeat(max + 1))
+        );
+      }
+    } else if (inner instanceof z.ZodEnum) {
+      add(
+        "invalid-enum",
+        path,
+        `${formatIssuePath(path)} is not one of ${inner.options.join(", ")}`,
+        setAt(base, path, "not-an-option")
+      );
+    } else if (inner instanceof z.ZodNumber) {
+      if (inner.minValue !== null) {
+        add(
+          "out-of-range",
+          path,
+          `${formatIssuePath(path)} is below its minimum`,
+          setAt(base, path, inner.minValue - 1)
+        );
+      }
+      if (inner.maxValue !== null) {
+        add(
+          "out-of-range",
+          path,
+          `${formatIssuePath(path)} is above its maximum`,
+          setAt(base, path, inner.maxValue + 1)
+        );
+      }
+      if (inner.isInt) {
+        add(
+          "wrong-type",
+          path,
+          `${formatIssuePath(path)} is not an integer`,
+          setAt(base, path, 1.5)
+        );
+      }
+    }
+  };
+
+  walk(schema, base, []);
+  return variants.filter((variant) => !schema.safeParse(variant.value).success);
+}
+
+export interface FactoryOptions<S extends z.ZodTypeAny> {
+  /** Seed for the factory's RNG; the same seed yields the same data. */
+  seed?: number;
+  /** Overrides applied to every built value. */
+  defaults?: Overrides<z.input<S>>;
+}
+
+/**
+ * Builds valid payloads for `schema`. Overrides are validated together with
+ * the generated value, so `build` never returns data the schema rejects.
+ */
+export class Factory<S extends z.ZodTypeAny> {
+  readonly rng: Rng;
+
+  constructor(
+    readonly schema: S,
+    private readonly options: FactoryOptions<S> = {}
+  ) {
+    this.rng = createRng(options.seed ?? randomSeed());
+  }
+
+  build(overrides?: Overrides<z.input<S>>): z.input<S> {
+    const value = applyOverrides(
+      applyOverrides(generate(this.schema, this.rng), this.options.defaults),
+      overrides
+    );
+    const result = this.schema.safeParse(value);
+    if (!result.success) {
+      throw new Error(
+        `Factory produced a value its schema rejects (seed ${
+          this.rng.seed
+        }):\n${formatZodIssues(result.error.issues, value)}`
+      );
+    }
+    return value as z.input<S>;
+  }
+
+  buildMany(count: number, overrides?: Overrides<z.input<S>>): z.input<S>[] {
+    return Array.from({ length: count }, () => this.build(overrides));
+  }
+
+  /** Invalid variants of a freshly built (or the given) valid payload. */
+  invalid(base: z.input<S> = this.build()): InvalidVariant[] {
+    return invalidVariants(this.schema, base);
+  }
+}
+
+export function createFactory<S extends z.ZodTypeAny>(
+  schema: S,
+  options?: FactoryOptions<S>
+) {
+  return new Factory(schema, options);
+}
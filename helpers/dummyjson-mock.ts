@@ -0,0 +1,263 @@
+import { Endpoint } from "./endpoint-client";
+import { MockHandler, MockServer } from "./mock-server";
+import { formatZodIssues } from "./schema-validation";
+import { ENDPOINTS } from "../schemas/endpoints";
+import { Cart } from "../schemas/schema";
+import mockData from "../testData/mockData.json";
+
+type MockData = typeof mockData;
+type MockUser = MockData["users"][number];
+
+/**
+ * Registers `handler` for `endpoint`. Request bodies that violate the
+ * endpoint's body schema, or fail `checkBody` when one is given instead,
+ * are answered with a 400, as dummyjson does.
+ */
+function route(
+  server: MockServer,
+  endpoint: Endpoint,
+  handler: MockHandler,
+  checkBody?: (body: unknown) => string | undefined
+) {
+  server.on(
+    endpoint.method,
+    endpoint.path,
+    (request) => {
+      let problem: string | undefined;
+      if (checkBody) {
+        problem = checkBody(request.body);
+      } else {
+        const result = endpoint.body?.safeParse(request.body);
+        problem =
+          result && !result.success
+            ? formatZodIssues(result.error.issues, request.body)
+            : undefined;
+      }
+      if (problem) {
+        return {
+          status: 400,
+          body: { message: `Invalid request body:\n${problem}` },
+        };
+      }
+      return handler(request);
+    },
+    { schema: endpoint.response }
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown) {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+/**
+ * Checks an add (`withUser`) or update cart payload by hand rather than with
+ * the schemas in `schemas/schema.ts`, so tests that build payloads from those
+ * schemas are checked against an independent definition.
+ */
+function cartPayloadProblem(body: unknown, withUser: boolean) {
+  if (!isPlainObject(body)) {
+    return "body must be an object";
+  }
+  const allowed = withUser ? ["userId", "products"] : ["merge", "products"];
+  const unknownKey = Object.keys(body).find((key) => !allowed.includes(key));
+  if (unknownKey) {
+    return `${unknownKey} is not allowed`;
+  }
+  if (withUser && !isPositiveInteger(body.userId)) {
+    return "userId must be a positive integer";
+  }
+  if (
+    !withUser &&
+    body.merge !== undefined &&
+    typeof body.merge !== "boolean"
+  ) {
+    return "merge must be a boolean";
+  }
+  if (!Array.isArray(body.products) || body.products.length === 0) {
+    return "products must be a non-empty array";
+  }
+  for (const [index, item] of body.products.entries()) {
+    if (!isPlainObject(item)) {
+      return `products[${index}] must be an object`;
+    }
+    for (const key of ["id", "quantity"]) {
+      if (!isPositiveInteger(item[key])) {
+        return `products[${index}].${key} must be a positive integer`;
+      }
+    }
+  }
+  return undefined;
+}
+
+function buildCart(
+  id: number,
+  userId: number,
+  items: { id: number; quantity: number }[],
+  products: MockData["products"]
+): Cart {
+  const lines = items.map(({ id: productId, quantity }) => {
+    const product = products.find((p) => p.id === productId) ?? products[0];
+    const total = Math.round(product.price * quantity * 100) / 100;
+    return {
+      ...product,
+      id: productId,
+      quantity,
+      total,
+      discountedTotal:
+        Math.round(total * (1 - product.discountPercentage / 100) * 100) / 100,
+    };
+  });
+  const sum = (key: "total" | "discountedTotal" | "quantity") =>
+    Math.round(lines.reduce((acc, line) => acc + line[key], 0) * 100) / 100;
+  return {
+    id,
+    products: lines,
+    total: sum("total"),
+    discountedTotal: sum("discountedTotal"),
+    userId,
+    totalProducts: lines.length,
+    totalQuantity: sum("quantity"),
+  };
+}
+
+/**
+ * Registers built-in routes that mimic the dummyjson endpoints in `ENDPOINTS`
+ * closely enough for the API suite to run offline. Responses are validated
+ * against the same schemas the tests use.
+ */
+export function registerDummyJsonRoutes(
+  server: MockServer,
+  data: MockData = mockData
+) {
+  const accessTokens = new Map<string, MockUser>();
+  const refreshTokens = new Map<string, MockUser>();
+  let issued = 0;
+
+  const issueTokens = (user: MockUser) => {
+    issued++;
+    const accessToken = `mock-access-${user.username}-${issued}`;
+    const refreshToken = `mock-refresh-${user.username}-${issued}`;
+    accessTokens.set(accessToken, user);
+    refreshTokens.set(refreshToken, user);
+    return { accessToken, refreshToken };
+  };
+  const profile = ({ password: _password, role: _role, ...rest }: MockUser) =>
+    rest;
+  const cartNotFound = (id: string) => ({
+    status: 404,
+    body: { message: `Cart with id '${id}' not found` },
+  });
+
+  server.builtIn(() => {
+    route(server, ENDPOINTS.auth.login, ({ body }) => {
+      const user = data.users.find(
+        (u) => u.username === body?.username && u.password === body?.password
+      );
+      if (!user) {
+        return { status: 400, body: { message: "Invalid credentials" } };
+      }
+      return { body: { ...profile(user), ...issueTokens(user) } };
+    });
+
+    route(server, ENDPOINTS.auth.me, ({ headers }) => {
+      const token = headers.authorization?.replace(/^Bearer /, "") ?? "";
+      const user = accessTokens.get(token);
+      if (!user) {
+        return { status: 401, body: { message: "Invalid/expired Token!" } };
+      }
+      return { body: { ...profile(user), role: user.role } };
+    });
+
+    route(server, ENDPOINTS.auth.refresh, ({ body }) => {
+      const user = refreshTokens.get(body?.refreshToken ?? "");
+      if (!user) {
+        return { status: 401, body: { message: "Invalid refresh token" } };
+      }
+      return { body: issueTokens(user) };
+    });
+
+    route(server, ENDPOINTS.carts.all, ({ query }) => {
+      const skip = Number(query.skip ?? 0);
+      const limit = Number(query.limit ?? 30) || data.carts.length;
+      const carts = data.carts.slice(skip, skip + limit);
+      return {
+        body: { carts, total: data.carts.length, skip, limit: carts.length },
+      };
+    });
+
+    route(server, ENDPOINTS.carts.byUser, ({ params }) => {
+      const carts = data.carts.filter(
+        (c) => c.userId === Number(params.userId)
+      );
+      return {
+        body: { carts, total: carts.length, skip: 0, limit: carts.length },
+      };
+    });
+
+    route(server, ENDPOINTS.carts.byId, ({ params }) => {
+      const cart = data.carts.find((c) => c.id === Number(params.cartId));
+      return cart ? { body: cart } : cartNotFound(params.cartId);
+    });
+
+    route(
+      server,
+      ENDPOINTS.carts.add,
+      ({ body }) => ({
+        status: 201,
+        body: buildCart(
+          data.carts.length + 1,
+          body.userId,
+          body.products,
+          data.products
+        ),
+      }),
+      (body) => cartPayloadProblem(body, true)
+    );
+
+    route(
+      server,
+      ENDPOINTS.carts.update,
+      ({ params, body }) => {
+        const cart = data.carts.find((c) => c.id === Number(params.cartId));
+        if (!cart) {
+          return cartNotFound(params.cartId);
+        }
+        const existing = body.merge
+          ? cart.products.map(({ id, quantity }) => ({ id, quantity }))
+          : [];
+        return {
+          body: buildCart(
+            cart.id,
+            cart.userId,
+            [...existing, ...body.products],
+            data.products
+          ),
+        };
+      },
+      (body) => cartPayloadProblem(body, false)
+    );
+
+    route(server, ENDPOINTS.carts.delete, ({ params }) => {
+      const cart = data.carts.find((c) => c.id === Number(params.cartId));
+      return cart
+        ? {
+            body: {
+              ...cart,
+              isDeleted: true,
+              deletedOn: new Date().toISOString(),
+            },
+          }
+        : cartNotFound(params.cartId);
+    });
+
+    server.on("GET", "/http/:status/:message", ({ params }) => ({
+      status: Number(params.status),
+      body: { status: params.status, message: params.message },
+    }));
+  });
+  return server;
+}
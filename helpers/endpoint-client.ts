@@ -0,0 +1,190 @@
+import { z } from "zod";
+import { ApiHelper, ApiResponse, RequestOptions } from "./api-helper";
+import {
+  InferResponseBody,
+  RequestValidationError,
+  ResponseSchema,
+} from "./schema-validation";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/** Names of the `:param` segments in a path template. */
+export type PathParamNames<P extends string> =
+  P extends `${string}:${infer Name}/${infer Rest}`
+    ? Name | PathParamNames<`/${Rest}`>
+    : P extends `${string}:${infer Name}`
+    ? Name
+    : never;
+
+export type PathParams<P extends string> = {
+  [K in PathParamNames<P>]: string | number;
+};
+
+/**
+ * Declarative description of one API operation. `params`, `query` and `body`
+ * are validated before the request is sent; `response` is validated on the
+ * way back exactly like the `responseSchema` of `ApiHelper`.
+ */
+export interface Endpoint {
+  method: HttpMethod;
+  /** Path template relative to the base URL, e.g. `/carts/user/:userId`. */
+  path: string;
+  params?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+  response: ResponseSchema;
+}
+
+export interface EndpointRegistry {
+  [name: string]: Endpoint | EndpointRegistry;
+}
+
+/** Identity helper that keeps the literal path and schema types of `endpoint`. */
+export function defineEndpoint<const E extends Endpoint>(endpoint: E): E {
+  return endpoint;
+}
+
+type QueryArgs<E extends Endpoint> = E extends {
+  query: infer Q extends z.ZodTypeAny;
+}
+  ? undefined extends z.input<Q>
+    ? { query?: z.input<Q> }
+    : {} extends z.input<Q>
+    ? { query?: z.input<Q> }
+    : { query: z.input<Q> }
+  : {};
+
+type BodyArgs<E extends Endpoint> = E extends {
+  body: infer B extends z.ZodTypeAny;
+}
+  ? { body: z.input<B> }
+  : {};
+
+/**
+ * Arguments of one endpoint call. Endpoints built at runtime (e.g. from an
+ * OpenAPI document) have no literal path type and accept any arguments; they
+ * are still validated against their schemas.
+ */
+export type EndpointArgs<E extends Endpoint> = string extends E["path"]
+  ? Record<string, any>
+  : PathParams<E["path"]> &
+      QueryArgs<E> &
+      BodyArgs<E> & {
+        headers?: Record<string, string>;
+        options?: RequestOptions;
+      };
+
+export type EndpointCall<E extends Endpoint> = {} extends EndpointArgs<E>
+  ? (
+      args?: EndpointArgs<E>
+    ) => Promise<ApiResponse<InferResponseBody<E["response"]>>>
+  : (
+      args: EndpointArgs<E>
+    ) => Promise<ApiResponse<InferResponseBody<E["response"]>>>;
+
+export type EndpointClient<R extends EndpointRegistry> = {
+  [K in keyof R]: R[K] extends Endpoint
+    ? EndpointCall<R[K]>
+    : R[K] extends EndpointRegistry
+    ? EndpointClient<R[K]>
+    : never;
+};
+
+function isEndpoint(value: Endpoint | EndpointRegistry): value is Endpoint {
+  return typeof value.method === "string" && typeof value.path === "string";
+}
+
+function validateInput(
+  schema: z.ZodTypeAny | undefined,
+  input: unknown,
+  endpoint: Endpoint,
+  part: RequestValidationError["part"]
+) {
+  if (!schema) {
+    return input;
+  }
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new RequestValidationError(
+      endpoint.method,
+      endpoint.path,
+      part,
+      result.error.issues,
+      input
+    );
+  }
+  return result.data;
+}
+
+/** Substitutes `:param` segments of `path` with URL-encoded values. */
+export function buildPath(path: string, params: Record<string, unknown>) {
+  return path.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (_, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null || value === "") {
+      throw new Error(`Missing path parameter "${name}" for ${path}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
+
+/**
+ * Validates `args` against `endpoint` and sends the request through `helper`;
+ * the body of every method of an endpoint client.
+ */
+export async function callEndpoint(
+  helper: ApiHelper,
+  endpoint: Endpoint,
+  args: Record<string, any> = {}
+) {
+  const { query, body, headers, options, ...pathParams } = args;
+  const params = validateInput(
+    endpoint.params,
+    pathParams,
+    endpoint,
+    "path params"
+  ) as Record<string, unknown>;
+  const validQuery = validateInput(endpoint.query, query, endpoint, "query");
+  const validBody = validateInput(endpoint.body, body, endpoint, "body");
+  return await helper.makeRequest(
+    endpoint.method,
+    buildPath(endpoint.path, params),
+    headers,
+    validBody,
+    validQuery,
+    endpoint.response,
+    options
+  );
+}
+
+/** The endpoint at a dotted `name` such as `auth.login`, if any. */
+export function findEndpoint(
+  registry: EndpointRegistry,
+  name: string
+): Endpoint | undefined {
+  let entry: Endpoint | EndpointRegistry | undefined = registry;
+  for (const key of name.split(".")) {
+    entry =
+      entry && !isEndpoint(entry) && Object.hasOwn(entry, key)
+        ? entry[key]
+        : undefined;
+  }
+  return entry && isEndpoint(entry) ? entry : undefined;
+}
+
+/**
+ * Builds a typed client for `registry` on top of `helper`, e.g.
+ * `createEndpointClient(apiHelper, ENDPOINTS).carts.byUser({ userId: 11 })`.
+ */
+export function createEndpointClient<R extends EndpointRegistry>(
+  helper: ApiHelper,
+  registry: R
+): EndpointClient<R> {
+  return Object.fromEntries(
+    Object.entries(registry).map(([name, entry]) => [
+      name,
+      isEndpoint(entry)
+        ? (args?: Record<string, any>) => callEndpoint(helper, entry, args)
+        : createEndpointClient(helper, entry),
+    ])
+  ) as EndpointClient<R>;
+}
@@ -0,0 +1,288 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { parseBody } from "./api-helper";
+import {
+  formatZodIssues,
+  resolveSchemaForStatus,
+  ResponseSchema,
+} from "./schema-validation";
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  /** Values of the `:param` segments of the matched route. */
+  params: Record<string, string>;
+  query: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  /** Parsed like `ApiResponse.body`: JSON, text or a Buffer. */
+  body: any;
+}
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  /** Objects are sent as JSON; strings and Buffers are sent as-is. */
+  body?: unknown;
+  /** Extra latency before the response is written. */
+  delayMs?: number;
+  /** Destroy the socket instead of answering, simulating `ECONNRESET`. */
+  networkError?: boolean;
+}
+
+export type MockHandler = (
+  request: MockRequest
+) => MockResponse | Promise<MockResponse>;
+
+export interface MockRouteOptions {
+  /** Latency added to every response of this route. */
+  delayMs?: number;
+  /** Serve only this many requests, then fall through to other routes. */
+  times?: number;
+  /** Validate handler responses; violations are answered with a 500. */
+  schema?: ResponseSchema;
+}
+
+interface MockRoute extends MockRouteOptions {
+  method: string;
+  path: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: MockHandler;
+  builtIn: boolean;
+}
+
+function compilePath(path: string) {
+  const paramNames: string[] = [];
+  const source = path
+    .split("/")
+    .map((segment) => {
+      if (segment.startsWith(":")) {
+        paramNames.push(segment.slice(1));
+        return "([^/]+)";
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("/");
+  return { pattern: new RegExp(`^${source}/?$`), paramNames };
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * In-process HTTP server with route handlers, used to run the API suite
+ * without network access. Routes registered later take precedence, so a test
+ * can override a built-in route (e.g. to inject a 503) without removing it.
+ */
+export class MockServer {
+  private server?: http.Server;
+  private routes: MockRoute[] = [];
+  private builtInMode = false;
+  /** Every request received since the last `reset`, while `recordRequests` is on. */
+  readonly requests: MockRequest[] = [];
+  /** Whether received requests are kept in `requests` (default `true`). */
+  recordRequests = true;
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error("MockServer is not started");
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async start(port = 0) {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        res.statusCode = 500;
+        res.end(JSON.stringify({ message: String(error) }));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      this.server!.listen(port, "127.0.0.1", resolve)
+    );
+    return this;
+  }
+
+  async stop() {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  }
+
+  /**
+   * Registers routes that survive `reset`, e.g. the default dummyjson
+   * routes. Routes registered inside `register` are marked as built-in.
+   */
+  builtIn(register: (server: this) => void) {
+    this.builtInMode = true;
+    try {
+      register(this);
+    } finally {
+      this.builtInMode = false;
+    }
+    return this;
+  }
+
+  /** Registers a route answering with `response`, a static response or a handler. */
+  on(
+    method: string,
+    path: string,
+    response: MockHandler | MockResponse,
+    options: MockRouteOptions = {}
+  ) {
+    this.routes.unshift({
+      ...options,
+      ...compilePath(path),
+      method: method.toUpperCase(),
+      path,
+      handler: typeof response === "function" ? response : () => response,
+      builtIn: this.builtInMode,
+    });
+    return this;
+  }
+
+  /** Removes routes added by tests and forgets recorded requests. */
+  reset() {
+    this.routes = this.routes.filter((route) => route.builtIn);
+    this.requests.length = 0;
+  }
+
+  /** Whether a route would answer `method` `url`, without serving it. */
+  handles(method: string, url: string) {
+    const { pathname } = new URL(url, "http://127.0.0.1");
+    return this.match(method.toUpperCase(), pathname) !== undefined;
+  }
+
+  private match(method: string, path: string) {
+    for (const route of this.routes) {
+      if (route.method !== method || route.times === 0) {
+        continue;
+      }
+      const match = route.pattern.exec(path);
+      if (match) {
+        const params = Object.fromEntries(
+          route.paramNames.map((name, index) => [
+            name,
+            decodeURIComponent(match[index + 1]),
+          ])
+        );
+        return { route, params };
+      }
+    }
+    return undefined;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const response = await this.respond(
+      req.method ?? "GET",
+      req.url ?? "/",
+      req.headers,
+      Buffer.concat(chunks)
+    );
+    if (response.networkError) {
+      req.socket.destroy();
+      return;
+    }
+    const { status, headers, payload } = serializeMockResponse(response);
+    res.writeHead(status, headers);
+    res.end(payload);
+  }
+
+  /**
+   * Records the request and resolves the response of the matching route,
+   * after its delay, or a 404 when no route matches. Used by the HTTP server
+   * and by browser route stubs, which answer without a running server.
+   */
+  async respond(
+    method: string,
+    url: string,
+    headers: http.IncomingHttpHeaders,
+    rawBody: Buffer
+  ): Promise<MockResponse> {
+    const { pathname, searchParams } = new URL(url, "http://127.0.0.1");
+    const verb = method.toUpperCase();
+    const matched = this.match(verb, pathname);
+    const request: MockRequest = {
+      method: verb,
+      path: pathname,
+      params: matched?.params ?? {},
+      query: Object.fromEntries(searchParams),
+      headers,
+      body: parseBody(rawBody, headers["content-type"]),
+    };
+    if (this.recordRequests) {
+      this.requests.push(request);
+    }
+
+    let response: MockResponse;
+    if (!matched) {
+      response = {
+        status: 404,
+        body: { message: `No mock route for ${verb} ${pathname}` },
+      };
+    } else {
+      const { route } = matched;
+      if (route.times !== undefined) {
+        route.times--;
+      }
+      response = await route.handler(request);
+      response = { ...response, delayMs: response.delayMs ?? route.delayMs };
+      const violation = route.schema && this.checkSchema(route, response);
+      if (violation) {
+        response = { status: 500, body: { message: violation } };
+      }
+    }
+
+    if (response.delayMs) {
+      await sleep(response.delayMs);
+    }
+    return response;
+  }
+
+  private checkSchema(route: MockRoute, response: MockResponse) {
+    const status = response.status ?? 200;
+    const schema = resolveSchemaForStatus(route.schema!, status);
+    if (!schema) {
+      return `Mock ${route.method} ${route.path} returned undeclared status ${status}`;
+    }
+    const result = schema.safeParse(response.body);
+    return result.success
+      ? undefined
+      : `Mock ${route.method} ${
+          route.path
+        } response violates its schema:\n${formatZodIssues(
+          result.error.issues,
+          response.body
+        )}`;
+  }
+}
+
+/**
+ * Status, headers and payload of `response` as written on the wire: objects
+ * become JSON, strings and Buffers are sent as-is.
+ */
+export function serializeMockResponse(response: MockResponse) {
+  const { status = 200, headers = {}, body } = response;
+  let payload: string | Buffer | undefined;
+  const responseHeaders = { ...headers };
+  if (body === undefined || body === null) {
+    payload = undefined;
+  } else if (typeof body === "string" || Buffer.isBuffer(body)) {
+    payload = body;
+  } else {
+    payload = JSON.stringify(body);
+    if (!Object.keys(headers).some((n) => n.toLowerCase() === "content-type")) {
+      responseHeaders["content-type"] = "application/json; charset=utf-8";
+    }
+  }
+  return { status, headers: responseHeaders, payload };
+}
@@ -0,0 +1,613 @@
+import type { TestInfo } from "@playwright/test";
+import fs from "fs";
+import { z } from "zod";
+import type { ApiResponse } from "./api-helper";
+import { Endpoint, HttpMethod } from "./endpoint-client";
+import {
+  formatZodIssues,
+  StatusClass,
+  StatusSchemaMap,
+  validateResponseBody,
+} from "./schema-validation";
+
+/** The subset of an OpenAPI 3 Schema Object converted to Zod. */
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  nullable?: boolean;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  items?: OpenApiSchema;
+  allOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  required?: boolean;
+  schema?: OpenApiSchema;
+}
+
+interface OpenApiMediaTypes {
+  content?: Record<string, { schema?: OpenApiSchema }>;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: OpenApiMediaTypes & { required?: boolean };
+  responses: Record<string, OpenApiMediaTypes & { description?: string }>;
+}
+
+const OPENAPI_DOCUMENT_SCHEMA = z
+  .object({
+    openapi: z.string().startsWith("3."),
+    info: z.object({ title: z.string(), version: z.string() }).passthrough(),
+    servers: z.array(z.object({ url: z.string() }).passthrough()).optional(),
+    paths: z.record(z.record(z.any())),
+    components: z
+      .object({ schemas: z.record(z.any()).optional() })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+export type OpenApiDocument = z.infer<typeof OPENAPI_DOCUMENT_SCHEMA>;
+
+const METHODS: HttpMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+/** One operation of the document, with its response schemas keyed by status. */
+export interface ContractOperation {
+  /** `operationId`, or `METHOD /path` when the document has none. */
+  id: string;
+  method: HttpMethod;
+  /** Path template as written in the document, e.g. `/carts/{cartId}`. */
+  path: string;
+  /** Declared status keys: `"200"`, `"4XX"`, `"default"`. */
+  statuses: string[];
+  responses: StatusSchemaMap;
+  endpoint: Endpoint;
+  pattern: RegExp;
+}
+
+/** The parts of a response the contract checks. */
+export type ContractResponse = Pick<
+  ApiResponse,
+  "method" | "url" | "status" | "body"
+>;
+
+/** Reads and validates an OpenAPI 3 document in JSON format. */
+export function loadOpenApiDocument(file: string): OpenApiDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Cannot read OpenAPI document ${file}: ${(error as Error).message}`
+    );
+  }
+  const result = OPENAPI_DOCUMENT_SCHEMA.safeParse(raw);
+  if (!result.success) {
+    throw new Error(
+      `Invalid OpenAPI document ${file}:\n${formatZodIssues(
+        result.error.issues,
+        raw
+      )}`
+    );
+  }
+  return result.data;
+}
+
+function statusKey(key: string): number | StatusClass | "default" {
+  if (key === "default") {
+    return key;
+  }
+  return /^[1-5]xx$/i.test(key)
+    ? (key.toLowerCase() as StatusClass)
+    : Number(key);
+}
+
+/** Annotation type under which exercised operations are recorded. */
+export const CONTRACT_ANNOTATION = "openapi-contract";
+
+/** Annotation type under which `OpenApiContract.check` records violations. */
+export const CONTRACT_VIOLATION_ANNOTATION = "openapi-contract-violation";
+
+/** `login 200`, `getCart 4XX`: one line of the coverage report. */
+export function coverageKey(
+  operation: Pick<ContractOperation, "id">,
+  status: string | number
+) {
+  return `${operation.id} ${status}`;
+}
+
+/**
+ * The response key of `operation` that documents `status`: the exact code,
+ * then its class (`4XX`), then `default`.
+ */
+export function declaredStatus(
+  operation: Pick<ContractOperation, "statuses">,
+  status: number
+) {
+  return (
+    operation.statuses.find((key) => key === String(status)) ??
+    operation.statuses.find(
+      (key) => /^[1-5]xx$/i.test(key) && key[0] === String(status)[0]
+    ) ??
+    operation.statuses.find((key) => key === "default")
+  );
+}
+
+/**
+ * Converts OpenAPI Schema Objects to Zod, resolving `#/components/schemas`
+ * references. Recursive references become `z.lazy`.
+ */
+export class OpenApiSchemaConverter {
+  private readonly converted = new Map<string, z.ZodTypeAny>();
+  private readonly resolving = new Set<string>();
+
+  constructor(private readonly document: OpenApiDocument) {}
+
+  /** Every component schema, converted. */
+  components(): Record<string, z.ZodTypeAny> {
+    return Object.fromEntries(
+      Object.keys(this.document.components?.schemas ?? {}).map((name) => [
+        name,
+        this.component(name),
+      ])
+    );
+  }
+
+  component(name: string): z.ZodTypeAny {
+    const cached = this.converted.get(name);
+    if (cached) {
+      return cached;
+    }
+    if (this.resolving.has(name)) {
+      return z.lazy(() => this.component(name));
+    }
+    const schema = this.document.components?.schemas?.[name];
+    if (!schema) {
+      throw new Error(`Unknown schema reference #/components/schemas/${name}`);
+    }
+    this.resolving.add(name);
+    try {
+      const zodSchema = this.toZod(schema);
+      this.converted.set(name, zodSchema);
+      return zodSchema;
+    } finally {
+      this.resolving.delete(name);
+    }
+  }
+
+  toZod(schema: OpenApiSchema): z.ZodTypeAny {
+    if (schema.$ref) {
+      const name = schema.$ref.replace(/^#\/components\/schemas\//, "");
+      return this.component(name);
+    }
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const nullable = schema.nullable || types.includes("null");
+    const nonNull = types.filter((type) => type !== "null");
+    let zodSchema: z.ZodTypeAny;
+    if (nonNull.length > 1) {
+      zodSchema = z.union(
+        nonNull.map((type) => this.toZod({ ...schema, type })) as [
+          z.ZodTypeAny,
+          z.ZodTypeAny,
+          ...z.ZodTypeAny[]
+        ]
+      );
+    } else {
+      zodSchema = this.convertType(schema, nonNull[0]);
+    }
+    return nullable ? zodSchema.nullable() : zodSchema;
+  }
+
+  private convertType(
+    schema: OpenApiSchema,
+    type: string | undefined
+  ): z.ZodTypeAny {
+    if (schema.allOf) {
+      const parts = schema.allOf.map((part) => this.toZod(part));
+      return parts.every((part) => part instanceof z.ZodObject)
+        ? (parts as z.AnyZodObject[]).reduce((a, b) => a.merge(b))
+        : parts.reduce((a, b) => z.intersection(a, b));
+    }
+    const variants = schema.oneOf ?? schema.anyOf;
+    if (variants) {
+      const options = variants.map((variant) => this.toZod(variant));
+      return options.length === 1
+        ? options[0]
+        : z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+    }
+    if (schema.const !== undefined) {
+      return z.literal(schema.const as z.Primitive);
+    }
+    if (schema.enum?.length === 1) {
+      return z.literal(schema.enum[0] as z.Primitive);
+    }
+    if (schema.enum) {
+      return schema.enum.every((value) => typeof value === "string")
+        ? z.enum(schema.enum as [string, ...string[]])
+        : z.union(
+            schema.enum.map((value) =>
+              z.literal(value as z.Primitive)
+            ) as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]
+          );
+    }
+    switch (type ?? (schema.properties ? "object" : undefined)) {
+      case "string":
+        return this.convertString(schema);
+      case "integer":
+      case "number": {
+        let number = z.number();
+        if (type === "integer") {
+          number = number.int();
+        }
+        if (schema.minimum !== undefined) {
+          number = number.min(schema.minimum);
+        }
+        if (schema.maximum !== undefined) {
+          number = number.max(schema.maximum);
+        }
+        return number;
+      }
+      case "boolean":
+        return z.boolean();
+      case "array": {
+        let array = z.array(schema.items ? this.toZod(schema.items) : z.any());
+        if (schema.minItems !== undefined) {
+          array = array.min(schema.minItems);
+        }
+        if (schema.maxItems !== undefined) {
+          array = array.max(schema.maxItems);
+        }
+        return array;
+      }
+      case "object":
+        return this.convertObject(schema);
+      default:
+        return z.any();
+    }
+  }
+
+  private convertString(schema: OpenApiSchema) {
+    let string = z.string();
+    switch (schema.format) {
+      case "email":
+        string = string.email();
+        break;
+      case "uri":
+      case "url":
+        string = string.url();
+        break;
+      case "date-time":
+        string = string.datetime({ offset: true });
+        break;
+      case "date":
+        string = string.date();
+        break;
+      case "uuid":
+        string = string.uuid();
+        break;
+    }
+    if (schema.minLength !== undefined) {
+      string = string.min(schema.minLength);
+    }
+    if (schema.maxLength !== undefined) {
+      string = string.max(schema.maxLength);
+    }
+    if (schema.pattern) {
+      string = string.regex(new RegExp(schema.pattern));
+    }
+    return string;
+  }
+
+  private convertObject(schema: OpenApiSchema) {
+    const required = schema.required ?? [];
+    const shape: z.ZodRawShape = {};
+    for (const [key, value] of Object.entries(schema.properties ?? {})) {
+      const property = this.toZod(value);
+      shape[key] = required.includes(key) ? property : property.optional();
+    }
+    const object = z.object(shape);
+    if (schema.additionalProperties === false) {
+      return object.strict();
+    }
+    if (typeof schema.additionalProperties === "object") {
+      return object.catchall(this.toZod(schema.additionalProperties));
+    }
+    return object.passthrough();
+  }
+
+  /** Builds a `z.object` of the parameters located `in` the given place. */
+  parameters(
+    parameters: OpenApiParameter[],
+    location: OpenApiParameter["in"]
+  ): z.AnyZodObject | undefined {
+    const selected = parameters.filter((p) => p.in === location);
+    if (!selected.length) {
+      return undefined;
+    }
+    return z.object(
+      Object.fromEntries(
+        selected.map((parameter) => {
+          const schema = parameter.schema
+            ? this.toZod(parameter.schema)
+            : z.string();
+          return [
+            parameter.name,
+            parameter.required || location === "path"
+              ? schema
+              : schema.optional(),
+          ];
+        })
+      )
+    );
+  }
+}
+
+/**
+ * Follows a local `$ref` such as `#/components/responses/Error`; other values
+ * are returned unchanged.
+ */
+export function resolveRef<T>(document: OpenApiDocument, value: T): T {
+  const ref = (value as { $ref?: string } | undefined)?.$ref;
+  if (!ref) {
+    return value;
+  }
+  if (!ref.startsWith("#/")) {
+    throw new Error(`Only local references are supported, got ${ref}`);
+  }
+  const target = ref
+    .slice(2)
+    .split("/")
+    .reduce<any>((node, segment) => node?.[segment], document);
+  if (target === undefined) {
+    throw new Error(`Unresolvable reference ${ref}`);
+  }
+  return resolveRef(document, target as T);
+}
+
+function isAbsoluteUrl(url: string) {
+  return /^[a-z][a-z\d+\-.]*:\/\//i.test(url);
+}
+
+function jsonSchemaOf(media: OpenApiMediaTypes | undefined) {
+  const content = media?.content ?? {};
+  const type = Object.keys(content).find((name) => /[/+]json\b/i.test(name));
+  return type ? content[type].schema : undefined;
+}
+
+/**
+ * An OpenAPI document turned into Zod schemas. It validates every response
+ * of a documented operation against the schema declared for its status, and
+ * keeps track of which operation/status pairs were exercised. Only requests
+ * to `serverURL` (default: the document's first server) are matched; a
+ * relative server URL matches any host.
+ */
+export class OpenApiContract {
+  readonly schemas: Record<string, z.ZodTypeAny>;
+  readonly operations: ContractOperation[];
+  private readonly origin?: string;
+  private readonly basePath: string;
+
+  constructor(
+    readonly document: OpenApiDocument,
+    serverURL = document.servers?.[0]?.url ?? "/"
+  ) {
+    const converter = new OpenApiSchemaConverter(document);
+    this.schemas = converter.components();
+    const server = new URL(serverURL, "http://localhost");
+    this.origin = isAbsoluteUrl(serverURL) ? server.origin : undefined;
+    this.basePath = server.pathname.replace(/\/+$/, "");
+    this.operations = Object.entries(document.paths).flatMap(([path, item]) => {
+      const shared: OpenApiParameter[] = item.parameters ?? [];
+      return METHODS.filter((method) => item[method.toLowerCase()]).map(
+        (method) =>
+          this.operation(
+            converter,
+            method,
+            path,
+            item[method.toLowerCase()] as OpenApiOperation,
+            shared
+          )
+      );
+    });
+  }
+
+  static load(file: string, serverURL?: string) {
+    return new OpenApiContract(loadOpenApiDocument(file), serverURL);
+  }
+
+  private operation(
+    converter: OpenApiSchemaConverter,
+    method: HttpMethod,
+    path: string,
+    operation: OpenApiOperation,
+    shared: OpenApiParameter[]
+  ): ContractOperation {
+    const own = (operation.parameters ?? []).map((p) =>
+      resolveRef(this.document, p)
+    );
+    const parameters = [
+      ...shared
+        .map((p) => resolveRef(this.document, p))
+        .filter((p) => !own.some((o) => o.name === p.name && o.in === p.in)),
+      ...own,
+    ];
+    const responses: StatusSchemaMap = {};
+    for (const [key, response] of Object.entries(operation.responses)) {
+      const schema = jsonSchemaOf(resolveRef(this.document, response));
+      responses[statusKey(key)] = schema ? converter.toZod(schema) : z.any();
+    }
+    const requestBody = resolveRef(this.document, operation.requestBody);
+    const bodySchema = jsonSchemaOf(requestBody);
+    const body = bodySchema && converter.toZod(bodySchema);
+    const source = path
+      .split(/\{[^}]+\}/)
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("[^/]+");
+    return {
+      id: operation.operationId ?? `${method} ${path}`,
+      method,
+      path,
+      statuses: Object.keys(operation.responses),
+      responses,
+      pattern: new RegExp(`^${source}/?$`),
+      endpoint: {
+        method,
+        path: path.replace(/\{([^}]+)\}/g, ":$1"),
+        params: converter.parameters(parameters, "path"),
+        query: converter.parameters(parameters, "query")?.optional(),
+        body: body && !requestBody?.required ? body.optional() : body,
+        response: responses,
+      },
+    };
+  }
+
+  /** Operations keyed by id, ready for `createEndpointClient`. */
+  endpoints(): Record<string, Endpoint> {
+    return Object.fromEntries(
+      this.operations.map((operation) => [operation.id, operation.endpoint])
+    );
+  }
+
+  /** The documented operation a request to the server goes to, if any. */
+  find({
+    method,
+    url,
+  }: Pick<ApiResponse, "method" | "url">): ContractOperation | undefined {
+    const target = new URL(url, "http://localhost");
+    if (this.origin && isAbsoluteUrl(url) && target.origin !== this.origin) {
+      return undefined;
+    }
+    let pathname = target.pathname;
+    if (this.basePath && pathname.startsWith(this.basePath)) {
+      pathname = pathname.slice(this.basePath.length) || "/";
+    }
+    const verb = method.toUpperCase();
+    return this.operations.find(
+      (operation) =>
+        operation.method === verb && operation.pattern.test(pathname)
+    );
+  }
+
+  /**
+   * Validates `response` against its operation and returns the operation, or
+   * `undefined` for undocumented requests. Throws `SchemaValidationError` for
+   * an undeclared status or a body that violates the declared schema.
+   * Exercised operations are recorded on `testInfo` for the coverage report.
+   */
+  verify(
+    response: ContractResponse,
+    testInfo?: TestInfo
+  ): ContractOperation | undefined {
+    const operation = this.find(response);
+    if (operation) {
+      testInfo?.annotations.push({
+        type: CONTRACT_ANNOTATION,
+        description: coverageKey(
+          operation,
+          declaredStatus(operation, response.status) ?? response.status
+        ),
+      });
+      validateResponseBody(
+        operation.responses,
+        response.method,
+        response.url,
+        response.status,
+        response.body
+      );
+    }
+    return operation;
+  }
+
+  /**
+   * Like `verify`, but never throws: a violation is returned and recorded on
+   * `testInfo` for the coverage report, so the caller still gets the
+   * response. This is how `ApiHelper` checks every response.
+   */
+  check(
+    response: ContractResponse,
+    testInfo?: TestInfo
+  ): { operation?: ContractOperation; violation?: string } {
+    try {
+      return { operation: this.verify(response, testInfo) };
+    } catch (error) {
+      const violation = (error as Error).message;
+      testInfo?.annotations.push({
+        type: CONTRACT_VIOLATION_ANNOTATION,
+        description: violation,
+      });
+      return { operation: this.find(response), violation };
+    }
+  }
+}
+
+export interface ContractCoverage {
+  total: number;
+  exercised: number;
+  responses: {
+    operation: string;
+    method: HttpMethod;
+    path: string;
+    status: string;
+    exercised: boolean;
+  }[];
+}
+
+/**
+ * Every declared operation/status pair of `contract`, marked with whether a
+ * `coverageKey` in `exercised` hit it.
+ */
+export function contractCoverage(
+  contract: OpenApiContract,
+  exercised: Iterable<string>
+): ContractCoverage {
+  const hit = new Set(exercised);
+  const responses = contract.operations.flatMap((operation) =>
+    operation.statuses.map((status) => ({
+      operation: operation.id,
+      method: operation.method,
+      path: operation.path,
+      status,
+      exercised: hit.has(coverageKey(operation, status)),
+    }))
+  );
+  return {
+    total: responses.length,
+    exercised: responses.filter((response) => response.exercised).length,
+    responses,
+  };
+}
+
+/** Summary line followed by every response the run never exercised. */
+export function formatCoverage(coverage: ContractCoverage) {
+  const percent = coverage.total
+    ? Math.round((coverage.exercised / coverage.total) * 100)
+    : 100;
+  const missing = coverage.responses.filter((response) => !response.exercised);
+  return [
+    `OpenAPI contract coverage: ${coverage.exercised}/${coverage.total} responses exercised (${percent}%)`,
+    ...(missing.length ? ["Never exercised:"] : []),
+    ...missing.map(
+      (response) =>
+        `  - ${response.operation} (${response.method} ${response.path}) ${response.status}`
+    ),
+  ].join("\n");
+}
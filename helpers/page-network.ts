@@ -0,0 +1,250 @@
+import { Page, Response, Route, TestInfo } from "@playwright/test";
+import { parseBody } from "./api-helper";
+import {
+  MockHandler,
+  MockResponse,
+  MockRouteOptions,
+  MockServer,
+  serializeMockResponse,
+} from "./mock-server";
+import { OpenApiContract } from "./openapi-contract";
+import {
+  ResponseSchema,
+  StatusClass,
+  validateResponseBody,
+} from "./schema-validation";
+
+/** What a named capture waits for; unset fields match anything. */
+export interface CaptureSpec {
+  /** Substring of the response URL, or a pattern it must match. */
+  url: string | RegExp;
+  method?: string;
+  /** Expected status or status class (default `2xx`). */
+  status?: number | StatusClass;
+  /** Only responses whose parsed body satisfies this are captured. */
+  body?: (body: any) => boolean;
+  /** Validates the captured body; a mismatch throws `SchemaValidationError`. */
+  schema?: ResponseSchema;
+}
+
+/** A browser response matched by a capture, with both bodies parsed. */
+export interface CapturedExchange {
+  name: string;
+  method: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  requestBody: any;
+  body: any;
+}
+
+export interface PageNetworkOptions {
+  /**
+   * Every captured response of a documented operation is checked; violations
+   * are recorded on `testInfo`, as for `ApiHelper`.
+   */
+  contract?: OpenApiContract;
+  /** Receives the contract coverage annotations. */
+  testInfo?: TestInfo;
+  /** How long a capture waits for its response (default 30s). */
+  timeout?: number;
+}
+
+function statusMatches(expected: number | StatusClass, status: number) {
+  return typeof expected === "number"
+    ? status === expected
+    : Math.floor(status / 100) === Number(expected[0]);
+}
+
+function describeSpec(name: string, spec: CaptureSpec) {
+  return `"${name}" (${spec.method?.toUpperCase() ?? "any method"} ${
+    spec.url
+  }, status ${spec.status ?? "2xx"})`;
+}
+
+async function readBody(response: Response) {
+  try {
+    return parseBody(await response.body(), response.headers()["content-type"]);
+  } catch {
+    // Redirects and aborted responses have no body.
+    return null;
+  }
+}
+
+/**
+ * Browser-side counterpart of the API suite's network tooling: answers page
+ * requests with `MockServer` routes and captures the API responses a page
+ * consumes, validated against their schemas and the OpenAPI contract.
+ */
+export class PageNetwork {
+  /** Every exchange captured since the last `clear`, in arrival order. */
+  readonly captured: CapturedExchange[] = [];
+  /** Routes added with `stub`; they belong to this page only. */
+  private stubs = new MockServer();
+  private routes: {
+    url: (url: URL) => boolean;
+    handler: (route: Route) => Promise<void>;
+  }[] = [];
+
+  constructor(readonly page: Page, private options: PageNetworkOptions = {}) {}
+
+  /**
+   * Answers every browser request under `baseURL` with the routes added with
+   * `stub` (before or after this call) and then those of `mocks`, e.g. the
+   * worker's `mockServer` with its dummyjson routes. Paths are matched
+   * relative to `baseURL`; unmatched requests get a 404.
+   */
+  async routeApi(baseURL: string, mocks?: MockServer) {
+    const base = new URL(baseURL);
+    const basePath = base.pathname.replace(/\/$/, "");
+    const url = (url: URL) =>
+      url.origin === base.origin &&
+      (url.pathname === basePath || url.pathname.startsWith(`${basePath}/`));
+    const handler = async (route: Route) => {
+      const request = route.request();
+      const requestUrl = new URL(request.url());
+      const path = `${requestUrl.pathname.slice(basePath.length) || "/"}${
+        requestUrl.search
+      }`;
+      const server =
+        !mocks || this.stubs.handles(request.method(), path)
+          ? this.stubs
+          : mocks;
+      const headers = await request.allHeaders();
+      const response = await server.respond(
+        request.method(),
+        path,
+        headers,
+        request.postDataBuffer() ?? Buffer.alloc(0)
+      );
+      if (response.networkError) {
+        await route.abort("connectionreset");
+        return;
+      }
+      const {
+        status,
+        headers: responseHeaders,
+        payload,
+      } = serializeMockResponse(response);
+      await route.fulfill({
+        status,
+        headers: {
+          "access-control-allow-origin": headers.origin ?? "*",
+          ...responseHeaders,
+        },
+        body: payload,
+      });
+    };
+    await this.page.route(url, handler);
+    this.routes.push({ url, handler });
+    return this;
+  }
+
+  /**
+   * Registers a route for this page, with the same handlers and options as
+   * `mockServer.on`. It takes precedence over the routes of the `mocks`
+   * given to `routeApi`, and applies to the URLs routed there.
+   */
+  stub(
+    method: string,
+    path: string,
+    response: MockHandler | MockResponse,
+    options?: MockRouteOptions
+  ) {
+    this.stubs.on(method, path, response, options);
+    return this;
+  }
+
+  /**
+   * Runs `action` and waits for one response per named spec, e.g.
+   * `capture({ cart: { url: "/carts/1", schema: CART_SCHEMA } }, () => page.goto("/cart"))`.
+   * Captured bodies are validated against the spec's schema and checked
+   * against the contract.
+   */
+  async capture<K extends string>(
+    specs: Record<K, CaptureSpec>,
+    action?: Promise<unknown> | (() => Promise<unknown>),
+    timeout = this.options.timeout
+  ): Promise<Record<K, CapturedExchange>> {
+    const waits = (Object.entries(specs) as [K, CaptureSpec][]).map(
+      async ([name, spec]) => {
+        const response = await this.page
+          .waitForResponse((response) => this.matches(spec, response), {
+            timeout,
+          })
+          .catch((error: Error) => {
+            throw new Error(
+              `No response matched capture ${describeSpec(name, spec)}: ${
+                error.message
+              }`
+            );
+          });
+        return [name, await this.record(name, spec, response)] as const;
+      }
+    );
+    const [, captured] = await Promise.all([
+      typeof action === "function" ? action() : action,
+      Promise.all(waits),
+    ]);
+    return Object.fromEntries(captured) as Record<K, CapturedExchange>;
+  }
+
+  /**
+   * Removes the routes added by `routeApi` and forgets captures and stubs.
+   * Other routes of the page and the routed `mocks` are left alone.
+   */
+  async clear() {
+    for (const { url, handler } of this.routes.splice(0)) {
+      await this.page.unroute(url, handler);
+    }
+    this.stubs.reset();
+    this.captured.length = 0;
+  }
+
+  private async matches(spec: CaptureSpec, response: Response) {
+    const url = response.url();
+    const matchesUrl =
+      typeof spec.url === "string"
+        ? url.includes(spec.url)
+        : spec.url.test(url);
+    if (
+      !matchesUrl ||
+      (spec.method &&
+        response.request().method() !== spec.method.toUpperCase()) ||
+      !statusMatches(spec.status ?? "2xx", response.status())
+    ) {
+      return false;
+    }
+    return spec.body ? spec.body(await readBody(response)) : true;
+  }
+
+  private async record(name: string, spec: CaptureSpec, response: Response) {
+    const request = response.request();
+    const method = request.method();
+    const url = response.url();
+    const status = response.status();
+    const raw = await readBody(response);
+    const body = spec.schema
+      ? validateResponseBody(spec.schema, method, url, status, raw)
+      : raw;
+    this.options.contract?.check(
+      { method, url, status, body: raw },
+      this.options.testInfo
+    );
+    const headers = request.headers();
+    const exchange: CapturedExchange = {
+      name,
+      method,
+      url,
+      status,
+      headers: response.headers(),
+      requestBody: parseBody(
+        request.postDataBuffer() ?? Buffer.alloc(0),
+        headers["content-type"]
+      ),
+      body,
+    };
+    this.captured.push(exchange);
+    return exchange;
+  }
+}
@@ -0,0 +1,116 @@
+import { Locator, Page } from "@playwright/test";
+import InitializationPage from "./page";
+import { PageNetworkOptions } from "./page-network";
+
+type AriaRole = Parameters<Page["getByRole"]>[0];
+type RoleOptions = NonNullable<Parameters<Page["getByRole"]>[1]>;
+
+/**
+ * How an element is found: a selector, a role or other user-facing query, or
+ * a function of the page or component it belongs to.
+ */
+export type ElementQuery =
+  | string
+  | ({ role: AriaRole } & RoleOptions)
+  | { label: string | RegExp; exact?: boolean }
+  | { placeholder: string | RegExp; exact?: boolean }
+  | { text: string | RegExp; exact?: boolean }
+  | { testId: string | RegExp }
+  | ((root: Page | Locator) => Locator);
+
+export type ElementMap = Record<string, ElementQuery>;
+
+/** One locator per declared element, so unknown names fail to compile. */
+export type Elements<M extends ElementMap> = {
+  readonly [K in keyof M]: Locator;
+};
+
+export function locate(root: Page | Locator, query: ElementQuery): Locator {
+  if (typeof query === "string") {
+    return root.locator(query);
+  }
+  if (typeof query === "function") {
+    return query(root);
+  }
+  if ("role" in query) {
+    const { role, ...options } = query;
+    return root.getByRole(role, options);
+  }
+  if ("label" in query) {
+    return root.getByLabel(query.label, { exact: query.exact });
+  }
+  if ("placeholder" in query) {
+    return root.getByPlaceholder(query.placeholder, { exact: query.exact });
+  }
+  if ("text" in query) {
+    return root.getByText(query.text, { exact: query.exact });
+  }
+  return root.getByTestId(query.testId);
+}
+
+export function bindElements<M extends ElementMap>(
+  root: Page | Locator,
+  map: M
+): Elements<M> {
+  return Object.fromEntries(
+    Object.entries(map).map(([name, query]) => [name, locate(root, query)])
+  ) as Elements<M>;
+}
+
+/**
+ * A part of a page such as a header, form or list row, whose elements are
+ * looked up inside `root`.
+ */
+export class Component<M extends ElementMap> {
+  readonly elements: Elements<M>;
+
+  constructor(readonly root: Locator, private map: M) {
+    this.elements = bindElements(root, map);
+  }
+
+  /** The `index`-th match of a repeated component, e.g. a table row. */
+  nth(index: number) {
+    return new Component(this.root.nth(index), this.map);
+  }
+}
+
+/**
+ * Base class for typed page objects. Elements are declared once and used
+ * as `Locator`s with the selector-agnostic helpers of `InitializationPage`:
+ *
+ * ```ts
+ * const CART = { checkout: { role: "button", name: "Checkout" }, rows: "tr.item" } satisfies ElementMap;
+ * class CartPage extends PageObject<typeof CART> {
+ *   readonly path = "/cart";
+ *   constructor(page: Page, options?: PageNetworkOptions) {
+ *     super(page, CART, options);
+ *   }
+ * }
+ * ```
+ */
+export abstract class PageObject<
+  M extends ElementMap
+> extends InitializationPage {
+  /** Opened by `open`, relative to the `baseURL`. */
+  abstract readonly path: string;
+  readonly elements: Elements<M>;
+
+  constructor(page: Page, map: M, networkOptions?: PageNetworkOptions) {
+    super(page, networkOptions);
+    this.elements = bindElements(page, map);
+  }
+
+  async open() {
+    await this.goto(this.path);
+    await this.waitForPageLoad("min");
+  }
+
+  /** Elements of `map` inside the element matching `root`. */
+  component<C extends ElementMap>(root: ElementQuery, map: C) {
+    return new Component(locate(this.page, root), map);
+  }
+}
+
+/** Anything the page-object fixtures can construct. */
+export type PageObjectClass<P extends InitializationPage = InitializationPage> =
+  new (page: Page, networkOptions?: PageNetworkOptions) => P;
@@ -0,0 +1,229 @@
+import { Page, Request } from "@playwright/test";
+import { CaptureSpec, CapturedExchange, PageNetwork } from "./page-network";
+
+export const DEFAULT_WAIT_TIMEOUT = 10000;
+
+export interface WaitOptions {
+  /** Give up after this many milliseconds (default 10s). */
+  timeout?: number;
+}
+
+/** Thrown when a condition is not met in time, with what was still pending. */
+export class WaitTimeoutError extends Error {
+  constructor(
+    readonly condition: string,
+    readonly timeout: number,
+    readonly diagnostics: string[] = []
+  ) {
+    super(
+      `Timed out after ${timeout}ms waiting for ${condition}` +
+        (diagnostics.length
+          ? `:\n${diagnostics.map((line) => `  - ${line}`).join("\n")}`
+          : "")
+    );
+    this.name = "WaitTimeoutError";
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function truncate(text: string, length = 200) {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+/**
+ * Polls `predicate` until it returns a truthy value and returns that value.
+ * Errors thrown by the predicate count as "not yet". On timeout the last
+ * result or error, plus anything `diagnose` reports, is part of the error.
+ */
+export async function waitUntil<T>(
+  condition: string,
+  predicate: () => T | Promise<T>,
+  options: WaitOptions & {
+    /** Delay between polls (default 100ms). */
+    interval?: number;
+    diagnose?: () => string[];
+  } = {}
+): Promise<NonNullable<T>> {
+  const { timeout = DEFAULT_WAIT_TIMEOUT, interval = 100 } = options;
+  const deadline = Date.now() + timeout;
+  let last = "no attempt finished";
+  for (;;) {
+    try {
+      const value = await predicate();
+      if (value) {
+        return value as NonNullable<T>;
+      }
+      last = `last result: ${truncate(String(JSON.stringify(value)))}`;
+    } catch (error) {
+      last = `last error: ${truncate(
+        String((error as Error)?.message ?? error)
+      )}`;
+    }
+    if (Date.now() + interval > deadline) {
+      throw new WaitTimeoutError(condition, timeout, [
+        last,
+        ...(options.diagnose?.() ?? []),
+      ]);
+    }
+    await sleep(interval);
+  }
+}
+
+/** URL patterns by name, e.g. `{ cart: "/carts/", profile: /\/auth\/me$/ }`. */
+export type RequestPatterns = Record<string, string | RegExp>;
+
+function matchingName(patterns: RequestPatterns, url: string) {
+  const entries = Object.entries(patterns);
+  if (entries.length === 0) {
+    return "request";
+  }
+  return entries.find(([, pattern]) =>
+    typeof pattern === "string" ? url.includes(pattern) : pattern.test(url)
+  )?.[0];
+}
+
+/**
+ * Condition-based waits for a page: its requests settling, API responses,
+ * DOM stability and custom predicates. Requests are tracked from
+ * construction on, so create it before the page starts loading.
+ */
+export class PageWaits {
+  private inFlight = new Map<Request, number>();
+  private completed: { url: string; at: number }[] = [];
+
+  constructor(readonly page: Page, private network: PageNetwork) {
+    page.on("request", (request) => this.inFlight.set(request, Date.now()));
+    const done = (request: Request) => {
+      this.inFlight.delete(request);
+      this.completed.push({ url: request.url(), at: Date.now() });
+      if (this.completed.length > 500) {
+        this.completed.splice(0, this.completed.length - 500);
+      }
+    };
+    page.on("requestfinished", done);
+    page.on("requestfailed", done);
+  }
+
+  /**
+   * Waits until no request matching `patterns` (any request when empty) is
+   * in flight and none has finished for `quietMs` (default 500ms).
+   */
+  async networkSettled(
+    patterns: RequestPatterns = {},
+    options: WaitOptions & { quietMs?: number } = {}
+  ) {
+    const { quietMs = 500 } = options;
+    const pending = () =>
+      [...this.inFlight.entries()].flatMap(([request, startedAt]) => {
+        const name = matchingName(patterns, request.url());
+        return name
+          ? [
+              `${name}: ${request.method()} ${request.url()} pending for ${
+                Date.now() - startedAt
+              }ms`,
+            ]
+          : [];
+      });
+    const names = Object.keys(patterns);
+    await waitUntil(
+      names.length ? `${names.join(", ")} to settle` : "the network to settle",
+      () => {
+        const lastCompleted = this.completed
+          .filter(({ url }) => matchingName(patterns, url))
+          .reduce((latest, { at }) => Math.max(latest, at), 0);
+        return pending().length === 0 && Date.now() - lastCompleted >= quietMs;
+      },
+      { timeout: options.timeout, interval: 50, diagnose: pending }
+    );
+  }
+
+  /**
+   * Runs `action` and waits for a response matching `spec`, validated
+   * against its schema; see `PageNetwork.capture`.
+   */
+  async response(
+    name: string,
+    spec: CaptureSpec,
+    action?: Promise<unknown> | (() => Promise<unknown>),
+    options: WaitOptions = {}
+  ): Promise<CapturedExchange> {
+    const captured = await this.network.capture(
+      { [name]: spec },
+      action,
+      options.timeout ?? DEFAULT_WAIT_TIMEOUT
+    );
+    return captured[name];
+  }
+
+  /**
+   * Waits until the subtree of `selector` (default `body`) has had no DOM
+   * mutations for `quietMs` (default 500ms).
+   */
+  async domStable(
+    options: WaitOptions & { selector?: string; quietMs?: number } = {},
+    page = this.page
+  ) {
+    const {
+      selector = "body",
+      quietMs = 500,
+      timeout = DEFAULT_WAIT_TIMEOUT,
+    } = options;
+    const result = await page.evaluate(
+      ({ selector, quietMs, timeout }) =>
+        new Promise<{ found: boolean; stable: boolean; mutations: number }>(
+          (resolve) => {
+            const target = document.querySelector(selector);
+            if (!target) {
+              resolve({ found: false, stable: false, mutations: 0 });
+              return;
+            }
+            let mutations = 0;
+            let quiet: ReturnType<typeof setTimeout>;
+            const finish = (stable: boolean) => {
+              observer.disconnect();
+              clearTimeout(quiet);
+              clearTimeout(deadline);
+              resolve({ found: true, stable, mutations });
+            };
+            const observer = new MutationObserver((records) => {
+              mutations += records.length;
+              clearTimeout(quiet);
+              quiet = setTimeout(() => finish(true), quietMs);
+            });
+            observer.observe(target, {
+              attributes: true,
+              characterData: true,
+              childList: true,
+              subtree: true,
+            });
+            quiet = setTimeout(() => finish(true), quietMs);
+            const deadline = setTimeout(() => finish(false), timeout);
+          }
+        ),
+      { selector, quietMs, timeout }
+    );
+    if (!result.stable) {
+      throw new WaitTimeoutError(
+        `the DOM of "${selector}" to be stable for ${quietMs}ms`,
+        timeout,
+        [
+          result.found
+            ? `${result.mutations} mutations while waiting`
+            : `no element matches "${selector}"`,
+        ]
+      );
+    }
+  }
+
+  /** Polls `predicate` until it returns a truthy value; see `waitUntil`. */
+  until<T>(
+    condition: string,
+    predicate: () => T | Promise<T>,
+    options?: WaitOptions & { interval?: number }
+  ) {
+    return waitUntil(condition, predicate, options);
+  }
+}
@@ -1,10 +1,37 @@
-import { Page, expect } from "@playwright/test";
+import { Locator, Page, expect } from "@playwright/test";
+import { StorageState } from "./browser-session";
+import {
+  MockHandler,
+  MockResponse,
+  MockRouteOptions,
+  MockServer,
+} from "./mock-server";
+import { CaptureSpec, PageNetwork, PageNetworkOptions } from "./page-network";
+import { DEFAULT_WAIT_TIMEOUT, PageWaits } from "./page-waits";
+
+/** Upper bounds for `waitForPageLoad`, by its former sleep presets. */
+const PAGE_LOAD_TIMEOUTS: Record<string, number> = {
+  max: 17000,
+  min: 3600,
+  "": 9000,
+};
+
+/** A selector, or a locator such as a page object's element. */
+export type Target = string | Locator;
 
 export default class InitializationPage {
-  pageObjects: any;
   page: Page;
-  constructor(page: Page) {
+  network: PageNetwork;
+  waits: PageWaits;
+  constructor(page: Page, networkOptions?: PageNetworkOptions) {
     this.page = page;
+    this.network = new PageNetwork(page, networkOptions);
+    this.waits = new PageWaits(page, this.network);
+  }
+
+  /** `target` as a locator; selectors are resolved against `page`. */
+  locate(target: Target, page = this.page) {
+    return typeof target === "string" ? page.locator(target) : target;
   }
 
   async goto(url: string) {
@@ -21,187 +48,194 @@ export default class InitializationPage {
   async closePage() {
     await this.page.close();
   }
-  async initialize(session: string, host: string) {
+  /**
+   * Sets the session cookies for the environment's web app (`environment.ui`),
+   * on its `cookieDomain` or else the host of its `baseURL`.
+   */
+  async initialize(
+    session: string,
+    ui: { baseURL: string; cookieDomain?: string }
+  ) {
+    const domain = ui.cookieDomain ?? new URL(ui.baseURL).hostname;
     await this.page.context().addCookies([
       {
         name: "blaize_session",
         value: `${session}`,
         path: "/",
-        domain: process.env.ENV === "prod" ? `www.${host}` : `${host}`,
+        domain,
       },
       {
         name: "blaize_prev_anon_session",
         value: `${session}`,
         path: "/",
-        domain: process.env.ENV === "prod" ? `www.${host}` : `${host}`,
+        domain,
       },
     ]);
   }
 
-  async clickOnElement(locator: any, index: any = 0) {
+  /**
+   * Replaces the context's cookies with those of `state` and seeds its
+   * localStorage on the next navigation, e.g. to switch users mid-test.
+   */
+  async applyStorageState(state: StorageState) {
+    const context = this.page.context();
+    await context.clearCookies();
+    await context.addCookies(state.cookies);
+    await context.addInitScript((origins) => {
+      const entry = origins.find((o) => o.origin === window.location.origin);
+      for (const { name, value } of entry?.localStorage ?? []) {
+        window.localStorage.setItem(name, value);
+      }
+    }, state.origins);
+  }
+
+  async clickOnElement(locator: Target, index = 0) {
     await this.page.waitForLoadState("domcontentloaded");
-    const element = this.page.locator(locator).nth(index);
+    const element = this.locate(locator).nth(index);
     await element.waitFor({ state: "visible", timeout: 5000 });
     await element.click({ force: true });
   }
 
-  async clickOnTextElementWithIndex(locator: string, text: string, index = 0) {
+  async clickOnTextElementWithIndex(locator: Target, text: string, index = 0) {
     await this.page.waitForLoadState("domcontentloaded");
-    await this.page
-      .locator(locator)
+    await this.locate(locator)
       .filter({ hasText: text })
       .nth(index)
       .click({ force: true });
   }
   async expectText(
-    selector: string,
+    selector: Target,
     expectedValue: string,
     index = 0,
-    page: any = this.page
+    page = this.page
   ) {
     const text = await this.getTextContents(selector, index, page);
     expect((text ?? "").trim()).toBe(expectedValue);
   }
-  async expectTextContains(selector: string, expectedValue: string, index = 0) {
+  async expectTextContains(selector: Target, expectedValue: string, index = 0) {
     const text = await this.getTextContents(selector, index);
     expect(text?.trim()).toContain(expectedValue);
   }
 
-  async expectVisible(selector: string, index = 0, page: any = this.page) {
-    const ele = await page.locator(selector).nth(index);
+  async expectVisible(selector: Target, index = 0, page = this.page) {
+    const ele = this.locate(selector, page).nth(index);
     await expect(ele).toBeVisible();
   }
-  async expectEnable(selector: string, index = 0) {
-    const ele = await this.page.locator(selector).nth(index);
+  async expectEnable(selector: Target, index = 0) {
+    const ele = this.locate(selector).nth(index);
     await this.expectVisible(selector, index);
     await expect(ele).toBeEnabled();
   }
-  async expectNotVisible(selector: string, index = 0) {
-    const ele = await this.page.locator(selector).nth(index);
+  async expectNotVisible(selector: Target, index = 0) {
+    const ele = this.locate(selector).nth(index);
     await expect(ele).not.toBeVisible();
   }
   async expectAttribute(
-    selector: string,
+    selector: Target,
     attributeName: string,
     attributevalue: string,
     index = 0
   ) {
-    const ele = await this.page.locator(selector).nth(index);
+    const ele = this.locate(selector).nth(index);
     await expect(ele).toHaveAttribute(attributeName, attributevalue);
   }
   async expectAttributeContains(
-    selector: any,
-    attributeName: any,
+    selector: Target,
+    attributeName: string,
     attributevalue: string,
     index = 0
   ) {
-    const ele = this.page.locator(selector).nth(index);
+    const ele = this.locate(selector).nth(index);
     const actualValue = await ele.getAttribute(attributeName);
     expect(actualValue).toContain(attributevalue);
   }
-  async getTextContents(locator: string, index = 0, page = this.page) {
-    return await page.locator(locator).nth(index).textContent();
+  async getTextContents(locator: Target, index = 0, page = this.page) {
+    return await this.locate(locator, page).nth(index).textContent();
   }
   async domcontentloaded() {
     await this.page.waitForLoadState("domcontentloaded");
   }
 
+  /**
+   * Waits for the page to load, its requests to settle and its DOM to stop
+   * changing. `"max"`, `"min"` and `""` bound the wait at 17s, 3.6s and 9s.
+   */
   async waitForPageLoad(string = "", page = this.page) {
-    await this.domcontentloaded();
-    await page.waitForLoadState("networkidle");
-    await page.waitForLoadState("load");
-    switch (string) {
-      case "max":
-        await page.waitForTimeout(17000);
-        break;
-      case "min":
-        await page.waitForTimeout(3600);
-        break;
-      case "":
-        await page.waitForTimeout(9000);
-        break;
-      default:
-        break;
+    const timeout = PAGE_LOAD_TIMEOUTS[string] ?? DEFAULT_WAIT_TIMEOUT;
+    await page.waitForLoadState("load", { timeout });
+    if (page === this.page) {
+      await this.waits.networkSettled({}, { timeout });
     }
+    await this.waits.domStable({ timeout }, page);
   }
   async waitOnlyForPageLoad(page = this.page) {
     await this.domcontentloaded();
     await page.waitForLoadState("networkidle");
     await page.waitForLoadState("load");
   }
-  async getElementsCount(locator: string) {
-    return await this.page.locator(locator).count();
+  async getElementsCount(locator: Target) {
+    return await this.locate(locator).count();
   }
 
-  async validateElementsCount(locator: string, length: number) {
+  async validateElementsCount(locator: Target, length: number) {
     const count = await this.getElementsCount(locator);
     await expect(count).toBe(length);
   }
 
+  /**
+   * Waits for the first 200 response of `requestUrl` (and `secondRequestUrl`)
+   * while `step` runs and returns their bodies.
+   */
   async captureResponseWhenPageLoad(
-    step: any,
+    step: Promise<unknown> | (() => Promise<unknown>),
     requestUrl: string,
     secondRequestUrl?: string
   ) {
-    // Promise for the first API response
-    const firstResponsePromise = this.page.waitForResponse(
-      (response) =>
-        response.url().includes(requestUrl) && response.status() === 200
+    const captures = await this.network.capture(
+      {
+        first: { url: requestUrl, status: 200 },
+        ...(secondRequestUrl && {
+          second: { url: secondRequestUrl, status: 200 },
+        }),
+      } as Record<"first" | "second", CaptureSpec>,
+      step
     );
+    return {
+      firstResponse: captures.first.body,
+      secondResponse: captures.second?.body ?? null,
+    };
+  }
 
-    // Promise for the second API response (optional)
-    let secondResponsePromise: Promise<any> | null = null;
-    if (secondRequestUrl) {
-      secondResponsePromise = this.page.waitForResponse(
-        (response) =>
-          response.url().includes(secondRequestUrl) && response.status() === 200
-      );
-    }
-
-    // Execute the step (page navigation) concurrently with the API wait
-    await step;
-
-    // Wait for the first response
-    const firstResponse = await firstResponsePromise;
-    let firstResponseData = null;
-    try {
-      firstResponseData = await firstResponse.json();
-    } catch (error) {
-      console.log(firstResponse);
-      console.error(
-        `Failed to parse first API response: ${(error as Error).message}`
-      );
-    }
+  /** Waits for every named response while `step` runs; see `PageNetwork.capture`. */
+  async captureResponses<K extends string>(
+    step: Promise<unknown> | (() => Promise<unknown>),
+    specs: Record<K, CaptureSpec>
+  ) {
+    return this.network.capture(specs, step);
+  }
 
-    // Wait for the second response if provided
-    let secondResponseData = null;
-    if (secondResponsePromise) {
-      const secondResponse = await secondResponsePromise;
-      try {
-        secondResponseData = await secondResponse.json();
-      } catch (error) {
-        console.log(secondResponse);
-        console.error(
-          `Failed to parse second API response: ${(error as Error).message}`
-        );
-      }
-    }
+  /** Answers API requests of the page under `baseURL` with its stubs, then `mocks`' routes. */
+  async routeApi(baseURL: string, mocks?: MockServer) {
+    await this.network.routeApi(baseURL, mocks);
+  }
 
-    // Return both responses
-    return {
-      firstResponse: firstResponseData,
-      secondResponse: secondResponseData,
-    };
+  async stubRoute(
+    method: string,
+    path: string,
+    response: MockHandler | MockResponse,
+    options?: MockRouteOptions
+  ) {
+    this.network.stub(method, path, response, options);
   }
 
-  async expectVisibleAllElements(selector: string) {
-    const elementList = await this.page.$$(selector);
+  async expectVisibleAllElements(selector: Target) {
+    const elementList = await this.locate(selector).all();
     for (const element of elementList) {
       expect(await element.isVisible()).toBe(true);
     }
   }
-  async expectTextAllElements(selector: string, expectedText: string) {
-    const elementList = await this.page.$$(selector);
+  async expectTextAllElements(selector: Target, expectedText: string) {
+    const elementList = await this.locate(selector).all();
 
     for (const element of elementList) {
       const actualText = await element.textContent();
@@ -209,42 +243,41 @@ export default class InitializationPage {
     }
   }
 
-  async fillDataByLocator(locator: string, index = 0, data: string) {
-    await this.page.locator(locator).nth(index).fill(data);
+  async fillDataByLocator(locator: Target, index = 0, data: string) {
+    await this.locate(locator).nth(index).fill(data);
   }
-  async typeOnElement(locator: string, text: string, timeout = 0) {
-    await this.page.locator(locator).clear();
-    await this.page.locator(locator).type(text, { delay: timeout });
+  async typeOnElement(locator: Target, text: string, timeout = 0) {
+    await this.locate(locator).clear();
+    await this.locate(locator).pressSequentially(text, { delay: timeout });
   }
-  async clearTxtBox(locator: string) {
-    await this.page.locator(locator).clear();
+  async clearTxtBox(locator: Target) {
+    await this.locate(locator).clear();
   }
-  async getCountOfElements(locator: string) {
-    return await this.page.locator(locator).count();
+  async expectCount(locator: Target, number: number) {
+    await expect(this.locate(locator)).toHaveCount(number);
   }
-  async expectCount(locator: string, number: number) {
-    await expect(this.page.locator(locator)).toHaveCount(number);
+  /** Retries until more than `number` elements match. */
+  async expectCountGreaterThan(locator: Target, number: number) {
+    await expect
+      .poll(() => this.getElementsCount(locator))
+      .toBeGreaterThan(number);
   }
-  async expectCountGreaterThan(locator: string, number: number) {
-    expect(number).toBeGreaterThan(await this.getElementsCount(locator));
-  }
-  async getTextContentOfAllElements(locator: string) {
-    const dropdownOptions = await this.page.$$eval(locator, (options) =>
-      options.map((option) => option.textContent?.trim() || "")
-    );
-    return dropdownOptions;
+  async getTextContentOfAllElements(locator: Target) {
+    const dropdownOptions = await this.locate(locator).allTextContents();
+    return dropdownOptions.map((option) => option.trim());
   }
   async expectEqual(expected: any, actual: any) {
     return expect.soft(actual).toStrictEqual(expected);
   }
   async validateTextsBasedOnEnums(
-    selectors: string,
+    selectors: Target,
     enumNames: Record<string, string>,
     page = this.page
   ) {
     // Fetch all labels once
-    await page.waitForSelector(selectors, { timeout: 5000 });
-    const labels = await page.locator(selectors).allTextContents();
+    const labelLocator = this.locate(selectors, page);
+    await labelLocator.first().waitFor({ timeout: 5000 });
+    const labels = await labelLocator.allTextContents();
     const labelSet = new Set(labels);
     for (const [key, expectedText] of Object.entries(enumNames)) {
       if (typeof expectedText === "string" && !labelSet.has(expectedText)) {
@@ -256,32 +289,30 @@ export default class InitializationPage {
       }
     }
   }
-  async verifyNotSelected(selector: string) {
-    const isSelected = await this.page.locator(selector);
-    expect(isSelected).not.toBeChecked();
+  async verifyNotSelected(selector: Target) {
+    await expect(this.locate(selector)).not.toBeChecked();
   }
 
-  async verifySelected(selector: string, index = 0) {
-    const isSelected = await this.page.locator(selector).nth(index);
-    expect(isSelected).toBeChecked();
+  async verifySelected(selector: Target, index = 0) {
+    await expect(this.locate(selector).nth(index)).toBeChecked();
   }
 
-  async sendFilesToBrowser(locator: string, path: string) {
-    await this.page.waitForSelector(locator, { state: "visible" });
-    await this.page.locator(locator).setInputFiles(path);
+  async sendFilesToBrowser(locator: Target, path: string) {
+    await this.locate(locator).waitFor({ state: "visible" });
+    await this.locate(locator).setInputFiles(path);
   }
 
-  async isElementVisible(locator: string, index = 0, page = this.page) {
-    return await page.locator(locator).nth(index).isVisible({ timeout: 12000 });
+  async isElementVisible(locator: Target, index = 0, page = this.page) {
+    return await this.locate(locator, page).nth(index).isVisible();
   }
-  async isElementHidden(locator: string, index = 0, page = this.page) {
-    return await page.locator(locator).nth(index).isHidden({ timeout: 12000 });
+  async isElementHidden(locator: Target, index = 0, page = this.page) {
+    return await this.locate(locator, page).nth(index).isHidden();
   }
-  async verifyNewWindow(buttonLocator: string, buttonIndex = 0) {
+  async verifyNewWindow(buttonLocator: Target, buttonIndex = 0) {
     // Listen for a new page (popup window/tab)
     const [newPage] = await Promise.all([
       this.page.waitForEvent("popup"),
-      this.page.locator(buttonLocator).nth(buttonIndex).click(),
+      this.locate(buttonLocator).nth(buttonIndex).click(),
     ]);
 
     await newPage.waitForLoadState(); // Ensure the new page loads
@@ -317,7 +348,8 @@ export default class InitializationPage {
     await this.waitOnlyForPageLoad();
   }
 
+  /** Removes the API routes and stubs of this page and forgets captured responses. */
   async clearNetworkLogs() {
-    await this.page.unrouteAll();
+    await this.network.clear();
   }
 }
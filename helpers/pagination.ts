@@ -0,0 +1,283 @@
+import { z } from "zod";
+import type { ApiHelper, ApiResponse, RequestOptions } from "./api-helper";
+import { SchemaValidationError } from "./schema-validation";
+
+/** `?skip=&limit=` paging, as used by dummyjson list endpoints. */
+export interface OffsetPagination {
+  type: "offset";
+  /** Page size to request; the server default is used when omitted. */
+  limit?: number;
+  skipParam?: string;
+  limitParam?: string;
+}
+
+/** `?page=&size=` paging with 1-based page numbers by default. */
+export interface PageNumberPagination {
+  type: "page";
+  pageSize?: number;
+  pageParam?: string;
+  sizeParam?: string;
+  firstPage?: number;
+  /** Body field holding the number of pages, when the API reports it. */
+  totalPagesKey?: string;
+}
+
+/** Opaque cursors returned in the body and sent back as a query parameter. */
+export interface CursorPagination {
+  type: "cursor";
+  cursorParam?: string;
+  /** Dotted body path of the next cursor (e.g. `meta.next`) or a function. */
+  nextCursor: string | ((body: any) => string | null | undefined);
+}
+
+/** Follows the `rel="next"` URL of the `Link` response header (RFC 8288). */
+export interface LinkHeaderPagination {
+  type: "link";
+}
+
+export type PaginationStrategy =
+  | OffsetPagination
+  | PageNumberPagination
+  | CursorPagination
+  | LinkHeaderPagination;
+
+export interface PaginateOptions<S extends z.ZodTypeAny | undefined> {
+  strategy: PaginationStrategy;
+  headers?: Record<string, string>;
+  /** Query parameters sent with every page request. */
+  query?: Record<string, unknown>;
+  /**
+   * Where the items are in the body: a dotted path (e.g. `carts`) or a
+   * function. Defaults to the body itself when it is an array, otherwise its
+   * only array-valued field.
+   */
+  itemsKey?: string | ((body: any) => unknown[]);
+  /** Dotted body path of the reported item count (default `total`). */
+  totalKey?: string;
+  /** Validates every item; the parsed items are returned. */
+  itemSchema?: S;
+  /** Safety cap; reaching it with pages left throws (default 50). */
+  maxPages?: number;
+  requestOptions?: RequestOptions;
+}
+
+export type PageItem<S> = S extends z.ZodTypeAny ? z.output<S> : any;
+
+export interface Page<T> {
+  /** Zero-based position of the page. */
+  index: number;
+  items: T[];
+  /** Item count reported by the API, if any. */
+  total?: number;
+  response: ApiResponse;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  pages: number;
+  /** Item count reported by the first page, if any. */
+  total?: number;
+}
+
+/** Thrown when paging exceeds `maxPages` or the collected count is wrong. */
+export class PaginationError extends Error {
+  constructor(readonly url: string, message: string) {
+    super(`Pagination of ${url} failed: ${message}`);
+    this.name = "PaginationError";
+  }
+}
+
+function valueAt(body: any, path: string) {
+  return path
+    .split(".")
+    .reduce((value, key) => (value == null ? undefined : value[key]), body);
+}
+
+function itemsOf(
+  body: any,
+  itemsKey: PaginateOptions<any>["itemsKey"]
+): unknown[] {
+  if (typeof itemsKey === "function") {
+    return itemsKey(body);
+  }
+  const value = itemsKey ? valueAt(body, itemsKey) : body;
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (!itemsKey && value && typeof value === "object") {
+    const arrays = Object.values(value).filter(Array.isArray);
+    if (arrays.length === 1) {
+      return arrays[0];
+    }
+  }
+  throw new Error(
+    itemsKey
+      ? `No item array at "${itemsKey}" in the page body`
+      : "Cannot find the item array in the page body; set `itemsKey`"
+  );
+}
+
+/** The `rel="next"` target of a `Link` header, if any. */
+export function nextLink(header: string | undefined): string | undefined {
+  for (const part of header?.split(/,(?=\s*<)/) ?? []) {
+    const match = /^\s*<([^>]*)>(.*)$/.exec(part);
+    const rel = match && /;\s*rel="?([^";]+)"?/i.exec(match[2]);
+    if (rel && rel[1].toLowerCase().split(/\s+/).includes("next")) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Requests pages of `requestUrl` until the strategy reports no next page,
+ * yielding each page's (optionally validated) items.
+ */
+export async function* paginate<S extends z.ZodTypeAny | undefined>(
+  helper: ApiHelper,
+  requestUrl: string,
+  options: PaginateOptions<S>
+): AsyncGenerator<Page<PageItem<S>>> {
+  const { strategy, maxPages = 50, totalKey = "total" } = options;
+  let url = requestUrl;
+  let params: Record<string, unknown> = {};
+  let collected = 0;
+  if (strategy.type === "offset") {
+    params[strategy.skipParam ?? "skip"] = 0;
+    if (strategy.limit !== undefined) {
+      params[strategy.limitParam ?? "limit"] = strategy.limit;
+    }
+  } else if (strategy.type === "page") {
+    params[strategy.pageParam ?? "page"] = strategy.firstPage ?? 1;
+    if (strategy.pageSize !== undefined) {
+      params[strategy.sizeParam ?? "size"] = strategy.pageSize;
+    }
+  }
+
+  for (let index = 0; ; index++) {
+    if (index === maxPages) {
+      throw new PaginationError(
+        requestUrl,
+        `stopped after ${maxPages} pages (maxPages) with more pages left`
+      );
+    }
+    const response = await helper.makeRequest(
+      "GET",
+      url,
+      options.headers,
+      undefined,
+      strategy.type === "link" && index > 0
+        ? undefined
+        : { ...options.query, ...params },
+      undefined,
+      options.requestOptions
+    );
+    if (!response.ok) {
+      throw new PaginationError(
+        requestUrl,
+        `page ${index + 1} (${response.method} ${response.url}) returned ${
+          response.status
+        }`
+      );
+    }
+    const rawItems = itemsOf(response.body, options.itemsKey);
+    let items = rawItems as PageItem<S>[];
+    if (options.itemSchema) {
+      const result = z.array(options.itemSchema).safeParse(rawItems);
+      if (!result.success) {
+        throw new SchemaValidationError(
+          response.method,
+          response.url,
+          response.status,
+          result.error.issues,
+          rawItems
+        );
+      }
+      items = result.data;
+    }
+    const reported = valueAt(response.body, totalKey);
+    const total = typeof reported === "number" ? reported : undefined;
+    collected += items.length;
+    yield { index, items, total, response };
+
+    let hasNext: boolean;
+    switch (strategy.type) {
+      case "offset": {
+        const limit = strategy.limit;
+        hasNext = !(
+          items.length === 0 ||
+          (total !== undefined && collected >= total) ||
+          (limit !== undefined && limit > 0 && items.length < limit)
+        );
+        params = { ...params, [strategy.skipParam ?? "skip"]: collected };
+        break;
+      }
+      case "page": {
+        const pageParam = strategy.pageParam ?? "page";
+        const totalPages = strategy.totalPagesKey
+          ? valueAt(response.body, strategy.totalPagesKey)
+          : undefined;
+        const page = Number(params[pageParam]);
+        hasNext = !(
+          items.length === 0 ||
+          (total !== undefined && collected >= total) ||
+          (typeof totalPages === "number" &&
+            page - (strategy.firstPage ?? 1) + 1 >= totalPages) ||
+          (strategy.pageSize !== undefined && items.length < strategy.pageSize)
+        );
+        params = { ...params, [pageParam]: page + 1 };
+        break;
+      }
+      case "cursor": {
+        const cursor =
+          typeof strategy.nextCursor === "function"
+            ? strategy.nextCursor(response.body)
+            : valueAt(response.body, strategy.nextCursor);
+        hasNext = !!cursor;
+        params = { ...params, [strategy.cursorParam ?? "cursor"]: cursor };
+        break;
+      }
+      case "link": {
+        const link = nextLink(response.headers.link);
+        hasNext = !!link;
+        if (link) {
+          url = new URL(link, response.url).toString();
+        }
+        break;
+      }
+    }
+    if (!hasNext) {
+      return;
+    }
+  }
+}
+
+/**
+ * Collects the items of every page. Unless `verifyTotal` is `false`, the
+ * collected count must equal the total reported by the first page.
+ */
+export async function collectAll<S extends z.ZodTypeAny | undefined>(
+  helper: ApiHelper,
+  requestUrl: string,
+  options: PaginateOptions<S> & { verifyTotal?: boolean }
+): Promise<PaginatedResult<PageItem<S>>> {
+  const items: PageItem<S>[] = [];
+  let pages = 0;
+  let total: number | undefined;
+  for await (const page of paginate(helper, requestUrl, options)) {
+    items.push(...page.items);
+    total ??= page.total;
+    pages++;
+  }
+  if (
+    options.verifyTotal !== false &&
+    total !== undefined &&
+    items.length !== total
+  ) {
+    throw new PaginationError(
+      requestUrl,
+      `collected ${items.length} items over ${pages} pages, but the API reported a total of ${total}`
+    );
+  }
+  return { items, pages, total };
+}
@@ -0,0 +1,251 @@
+/** Summary of a set of durations, in milliseconds. */
+export interface LatencyStats {
+  count: number;
+  min: number;
+  max: number;
+  avg: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+/** Upper bounds, in milliseconds, for the statistics of an endpoint. */
+export type LatencyBudget = Partial<Omit<LatencyStats, "count" | "min">>;
+
+/**
+ * Budgets keyed by `"<METHOD> <path>"`, where the path may contain `:param`
+ * and `*` segments, e.g. `{ "GET /carts/:cartId": { p95: 500 } }`.
+ */
+export type LatencyBudgets = Record<string, LatencyBudget>;
+
+export interface LatencySample {
+  method: string;
+  /** Request path relative to the helper's base URL, without the query. */
+  path: string;
+  durationMs: number;
+}
+
+/** Thrown when measured latencies or load results exceed their budget. */
+export class LatencyBudgetError extends Error {
+  constructor(readonly violations: string[]) {
+    super(
+      `Performance budget exceeded:\n${violations
+        .map((violation) => `  - ${violation}`)
+        .join("\n")}`
+    );
+    this.name = "LatencyBudgetError";
+  }
+}
+
+/** Nearest-rank percentile of sorted `values`. */
+function percentile(sorted: number[], p: number) {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function latencyStats(durations: number[]): LatencyStats {
+  const sorted = [...durations].sort((a, b) => a - b);
+  if (sorted.length === 0) {
+    return { count: 0, min: 0, max: 0, avg: 0, p50: 0, p95: 0, p99: 0 };
+  }
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    avg: round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+  };
+}
+
+/** `p95 612ms exceeds 500ms`, one entry per exceeded bound. */
+export function budgetViolations(stats: LatencyStats, budget: LatencyBudget) {
+  return (Object.keys(budget) as (keyof LatencyBudget)[])
+    .filter((key) => stats.count > 0 && stats[key] > budget[key]!)
+    .map((key) => `${key} ${stats[key]}ms exceeds ${budget[key]}ms`);
+}
+
+function compileKey(key: string) {
+  const [method, path = "*"] = key.trim().split(/\s+/, 2);
+  const source = path
+    .split("/")
+    .map((segment) =>
+      segment === "*"
+        ? ".*"
+        : segment.startsWith(":")
+        ? "[^/]+"
+        : segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("/");
+  return {
+    method: method.toUpperCase(),
+    pattern: new RegExp(`^/?${source.replace(/^\//, "")}/?$`),
+  };
+}
+
+/**
+ * Collects the duration of every response of an `ApiHelper` and checks them
+ * against per-endpoint budgets.
+ */
+export class LatencyTracker {
+  readonly samples: LatencySample[] = [];
+
+  record(sample: LatencySample) {
+    this.samples.push(sample);
+  }
+
+  /** Statistics of the samples matching a budget key such as `GET /carts`. */
+  stats(key: string): LatencyStats {
+    const { method, pattern } = compileKey(key);
+    return latencyStats(
+      this.samples
+        .filter(
+          (sample) =>
+            (method === "*" || sample.method === method) &&
+            pattern.test(sample.path)
+        )
+        .map((sample) => sample.durationMs)
+    );
+  }
+
+  /** Every exceeded bound; endpoints without samples pass. */
+  violations(budgets: LatencyBudgets): string[] {
+    return Object.entries(budgets).flatMap(([key, budget]) => {
+      const stats = this.stats(key);
+      return budgetViolations(stats, budget).map(
+        (violation) => `${key} (${stats.count} requests): ${violation}`
+      );
+    });
+  }
+
+  assertWithin(budgets: LatencyBudgets) {
+    const violations = this.violations(budgets);
+    if (violations.length) {
+      throw new LatencyBudgetError(violations);
+    }
+  }
+}
+
+export interface LoadOptions {
+  /** Name used for the report attachments (default `load`). */
+  name?: string;
+  /** Scenario iterations run in parallel. */
+  concurrency: number;
+  /** Keep starting iterations until this much time has passed. */
+  durationMs?: number;
+  /** Stop after this many iterations in total. */
+  iterations?: number;
+  /** Checked after the run; exceeding it throws a `LatencyBudgetError`. */
+  budget?: LatencyBudget & {
+    /** Highest acceptable share of failed iterations, from 0 to 1. */
+    errorRate?: number;
+    /** Lowest acceptable number of iterations per second. */
+    minThroughput?: number;
+  };
+}
+
+export interface LoadReport {
+  name: string;
+  concurrency: number;
+  iterations: number;
+  errors: number;
+  errorRate: number;
+  durationMs: number;
+  /** Completed iterations per second. */
+  throughput: number;
+  latency: LatencyStats;
+  /** The first distinct error messages, for diagnosis. */
+  errorSamples: string[];
+}
+
+/**
+ * Runs `scenario` with `concurrency` parallel loops until `durationMs` has
+ * elapsed or `iterations` have been started, and measures every iteration.
+ * A scenario that throws counts as an error; the run carries on.
+ */
+export async function runLoad(
+  scenario: (iteration: number) => Promise<unknown>,
+  options: LoadOptions
+): Promise<LoadReport> {
+  const { concurrency, durationMs, iterations: maxIterations } = options;
+  if (durationMs === undefined && maxIterations === undefined) {
+    throw new Error("runLoad needs `durationMs`, `iterations` or both");
+  }
+  const startedAt = Date.now();
+  const durations: number[] = [];
+  const errorSamples = new Set<string>();
+  let started = 0;
+  let errors = 0;
+  const hasNext = () =>
+    (maxIterations === undefined || started < maxIterations) &&
+    (durationMs === undefined || Date.now() - startedAt < durationMs);
+
+  const loop = async () => {
+    while (hasNext()) {
+      const iteration = started++;
+      const iterationStart = Date.now();
+      try {
+        await scenario(iteration);
+      } catch (error) {
+        errors++;
+        if (errorSamples.size < 5) {
+          errorSamples.add(
+            String((error as Error)?.message ?? error).split("\n")[0]
+          );
+        }
+      }
+      durations.push(Date.now() - iterationStart);
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, loop));
+
+  const elapsed = Date.now() - startedAt;
+  const report: LoadReport = {
+    name: options.name ?? "load",
+    concurrency,
+    iterations: durations.length,
+    errors,
+    errorRate: durations.length ? errors / durations.length : 0,
+    durationMs: elapsed,
+    throughput:
+      Math.round((durations.length / Math.max(elapsed, 1)) * 1000 * 100) / 100,
+    latency: latencyStats(durations),
+    errorSamples: [...errorSamples],
+  };
+  return report;
+}
+
+/** Every bound of `budget` that `report` exceeds. */
+export function loadViolations(
+  report: LoadReport,
+  budget: NonNullable<LoadOptions["budget"]>
+) {
+  const { errorRate, minThroughput, ...latency } = budget;
+  const violations = budgetViolations(report.latency, latency);
+  if (errorRate !== undefined && report.errorRate > errorRate) {
+    violations.push(
+      `error rate ${(report.errorRate * 100).toFixed(1)}% exceeds ${(
+        errorRate * 100
+      ).toFixed(1)}%`
+    );
+  }
+  if (minThroughput !== undefined && report.throughput < minThroughput) {
+    violations.push(
+      `throughput ${report.throughput}/s is below ${minThroughput}/s`
+    );
+  }
+  return violations;
+}
+
+/** Human-readable summary attached next to the JSON report. */
+export function formatLoadReport(report: LoadReport) {
+  const { latency } = report;
+  return [
+    `${report.name}: ${report.iterations} iterations, concurrency ${report.concurrency}, ${report.durationMs}ms`,
+    `latency  min ${latency.min}ms  avg ${latency.avg}ms  p50 ${latency.p50}ms  p95 ${latency.p95}ms  p99 ${latency.p99}ms  max ${latency.max}ms`,
+    `errors   ${report.errors} (${(report.errorRate * 100).toFixed(1)}%)`,
+    `throughput ${report.throughput} iterations/s`,
+    ...report.errorSamples.map((message) => `  ! ${message}`),
+  ].join("\n");
+}
@@ -0,0 +1,126 @@
+/**
+ * How arrays are written: `repeat` (`ids=1&ids=2`), `comma` (`ids=1,2`),
+ * `brackets` (`ids[]=1&ids[]=2`) or `indices` (`ids[0]=1&ids[1]=2`).
+ */
+export type ArrayFormat = "repeat" | "comma" | "brackets" | "indices";
+
+/**
+ * How dates are written: `iso` (`2024-05-01T10:00:00.000Z`), `date`
+ * (`2024-05-01`), `epoch` (milliseconds), `epoch-seconds` or a function.
+ */
+export type DateFormat =
+  | "iso"
+  | "date"
+  | "epoch"
+  | "epoch-seconds"
+  | ((date: Date) => string);
+
+export interface QuerySerializationOptions {
+  /** Default `repeat`. */
+  arrayFormat?: ArrayFormat;
+  /**
+   * Nested objects as `deepObject` (`filter[status]=open`, the default) or
+   * as a `json` string.
+   */
+  objectFormat?: "deepObject" | "json";
+  /** Default `iso`. */
+  dateFormat?: DateFormat;
+}
+
+function formatDate(date: Date, format: DateFormat = "iso") {
+  if (typeof format === "function") {
+    return format(date);
+  }
+  switch (format) {
+    case "date":
+      return date.toISOString().slice(0, 10);
+    case "epoch":
+      return String(date.getTime());
+    case "epoch-seconds":
+      return String(Math.floor(date.getTime() / 1000));
+    default:
+      return date.toISOString();
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * Flattens `query` into ordered key/value pairs. `undefined` values are
+ * skipped and `null` is sent as an empty value.
+ */
+export function serializeQuery(
+  query: Record<string, unknown>,
+  options: QuerySerializationOptions = {}
+): [string, string][] {
+  const { arrayFormat = "repeat", objectFormat = "deepObject" } = options;
+  const pairs: [string, string][] = [];
+  const scalar = (value: unknown) =>
+    value === null
+      ? ""
+      : value instanceof Date
+      ? formatDate(value, options.dateFormat)
+      : String(value);
+
+  const add = (key: string, value: unknown) => {
+    if (value === undefined) {
+      return;
+    }
+    if (Array.isArray(value)) {
+      const items = value.filter((item) => item !== undefined);
+      if (arrayFormat === "comma") {
+        pairs.push([key, items.map(scalar).join(",")]);
+      } else {
+        items.forEach((item, index) =>
+          add(
+            arrayFormat === "brackets"
+              ? `${key}[]`
+              : arrayFormat === "indices"
+              ? `${key}[${index}]`
+              : key,
+            item
+          )
+        );
+      }
+    } else if (isPlainObject(value)) {
+      if (objectFormat === "json") {
+        pairs.push([key, JSON.stringify(value)]);
+      } else {
+        for (const [name, nested] of Object.entries(value)) {
+          add(`${key}[${name}]`, nested);
+        }
+      }
+    } else {
+      pairs.push([key, scalar(value)]);
+    }
+  };
+
+  for (const [key, value] of Object.entries(query)) {
+    add(key, value);
+  }
+  return pairs;
+}
+
+/** Appends `query` to the search parameters already present in `url`. */
+export function appendQuery(
+  url: string,
+  query: Record<string, unknown> | undefined,
+  options?: QuerySerializationOptions
+) {
+  const pairs = query ? serializeQuery(query, options) : [];
+  if (pairs.length === 0) {
+    return url;
+  }
+  const target = new URL(url);
+  for (const [key, value] of pairs) {
+    target.searchParams.append(key, value);
+  }
+  return target.toString();
+}
@@ -0,0 +1,223 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+
+const REQUEST_BODY = Symbol("RequestBody");
+
+export type FieldValue = string | number | boolean;
+
+/**
+ * A file sent in a multipart body, read from disk or held in memory. Files on
+ * disk are streamed with a MIME type guessed from the extension. With a
+ * `name` or `mimeType` override they are read into memory instead and sent
+ * as `mimeType`, which defaults to `application/octet-stream`.
+ */
+export type FilePart =
+  | { path: string; name?: string; mimeType?: string }
+  | { buffer: Buffer; name: string; mimeType?: string };
+
+export type RequestBody =
+  | { [REQUEST_BODY]: true; type: "json"; value: unknown }
+  | { [REQUEST_BODY]: true; type: "form"; fields: Record<string, FieldValue> }
+  | {
+      [REQUEST_BODY]: true;
+      type: "multipart";
+      fields: Record<string, FieldValue | FilePart>;
+    }
+  | {
+      [REQUEST_BODY]: true;
+      type: "raw";
+      data: string | Buffer;
+      contentType: string;
+    };
+
+export type RequestBodyType = RequestBody["type"];
+
+/** Sent as JSON; the same as passing `value` directly. */
+export function jsonBody(value: unknown): RequestBody {
+  return { [REQUEST_BODY]: true, type: "json", value };
+}
+
+/** Sent as `application/x-www-form-urlencoded`. */
+export function formBody(fields: Record<string, FieldValue>): RequestBody {
+  return { [REQUEST_BODY]: true, type: "form", fields };
+}
+
+/**
+ * Sent as `multipart/form-data`. Files are re-read when the request is
+ * retried.
+ */
+export function multipartBody(
+  fields: Record<string, FieldValue | FilePart>
+): RequestBody {
+  return { [REQUEST_BODY]: true, type: "multipart", fields };
+}
+
+/**
+ * Sent as-is. The content type defaults to `text/plain` for strings and
+ * `application/octet-stream` for Buffers.
+ */
+export function rawBody(
+  data: string | Buffer,
+  contentType?: string
+): RequestBody {
+  return {
+    [REQUEST_BODY]: true,
+    type: "raw",
+    data,
+    contentType:
+      contentType ??
+      (typeof data === "string" ? "text/plain" : "application/octet-stream"),
+  };
+}
+
+export function isRequestBody(value: unknown): value is RequestBody {
+  return typeof value === "object" && value !== null && REQUEST_BODY in value;
+}
+
+function isFilePart(value: unknown): value is FilePart {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    ("path" in value || "buffer" in value)
+  );
+}
+
+function isContentType(name: string) {
+  return name.toLowerCase() === "content-type";
+}
+
+/** The `Content-Type` value among `headers`, matched case-insensitively. */
+export function contentTypeOf(headers: Record<string, string> = {}) {
+  return Object.entries(headers).find(([name]) => isContentType(name))?.[1];
+}
+
+/** `headers` without `Content-Type`. */
+export function withoutContentType(headers: Record<string, string> = {}) {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => !isContentType(name))
+  );
+}
+
+/**
+ * Playwright request options for `body` (plain values are sent as JSON
+ * `data`) and the request `headers`. `defaultContentType` applies to JSON
+ * bodies only; forms and multipart bodies always get their own content type
+ * (with the multipart boundary). File streams are opened on every call.
+ */
+export function toRequestOptions(
+  body: unknown,
+  headers: Record<string, string> = {},
+  defaultContentType?: string
+): Record<string, unknown> {
+  const withContentType = (contentType?: string) =>
+    contentType && !contentTypeOf(headers)
+      ? { ...headers, "Content-Type": contentType }
+      : headers;
+  if (!isRequestBody(body)) {
+    return { headers: withContentType(defaultContentType), data: body };
+  }
+  switch (body.type) {
+    case "json":
+      return { headers: withContentType(defaultContentType), data: body.value };
+    case "form":
+      return { headers: withoutContentType(headers), form: body.fields };
+    case "multipart":
+      return {
+        headers: withoutContentType(headers),
+        multipart: Object.fromEntries(
+          Object.entries(body.fields).map(([name, value]) => {
+            if (!isFilePart(value)) {
+              return [name, value];
+            }
+            if ("buffer" in value) {
+              return [
+                name,
+                {
+                  name: value.name,
+                  mimeType: value.mimeType ?? "application/octet-stream",
+                  buffer: value.buffer,
+                },
+              ];
+            }
+            if (!value.name && !value.mimeType) {
+              return [name, fs.createReadStream(value.path)];
+            }
+            return [
+              name,
+              {
+                name: value.name ?? path.basename(value.path),
+                mimeType: value.mimeType ?? "application/octet-stream",
+                buffer: fs.readFileSync(value.path),
+              },
+            ];
+          })
+        ),
+      };
+    case "raw":
+      return { headers: withContentType(body.contentType), data: body.data };
+  }
+}
+
+/**
+ * A JSON-friendly description of `body` for logs and cassettes: files are
+ * summarised by name and size, and in-memory files and raw bytes by their
+ * SHA-256.
+ */
+export function describeBody(body: unknown): unknown {
+  if (!isRequestBody(body)) {
+    return body;
+  }
+  switch (body.type) {
+    case "json":
+      return body.value;
+    case "form":
+      return body.fields;
+    case "multipart":
+      return Object.fromEntries(
+        Object.entries(body.fields).map(([name, value]) => [
+          name,
+          !isFilePart(value)
+            ? value
+            : "path" in value
+            ? {
+                file: value.name ?? path.basename(value.path),
+                path: value.path,
+                bytes: fs.statSync(value.path).size,
+              }
+            : {
+                file: value.name,
+                bytes: value.buffer.length,
+                sha256: checksum(value.buffer),
+              },
+        ])
+      );
+    case "raw":
+      return typeof body.data === "string"
+        ? body.data
+        : { bytes: body.data.length, sha256: checksum(body.data) };
+  }
+}
+
+/** The body type used for logging; plain values are JSON. */
+export function bodyType(body: unknown): RequestBodyType {
+  return isRequestBody(body) ? body.type : "json";
+}
+
+/** Hex digest of `data` (SHA-256 by default). */
+export function checksum(data: Buffer | string, algorithm = "sha256") {
+  return createHash(algorithm).update(data).digest("hex");
+}
+
+export interface SavedBody {
+  path: string;
+  bytes: number;
+  sha256: string;
+}
+
+/** Writes a response body to `filePath`, creating directories as needed. */
+export function saveBody(rawBody: Buffer, filePath: string): SavedBody {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, rawBody);
+  return { path: filePath, bytes: rawBody.length, sha256: checksum(rawBody) };
+}
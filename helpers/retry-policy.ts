@@ -0,0 +1,111 @@
+/**
+ * When and how `ApiHelper` retries a request. `maxAttempts` counts the first
+ * attempt, so the default of `1` means "never retry".
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  /** Response statuses treated as transient. */
+  retryOnStatuses: number[];
+  /** Network error codes treated as transient, matched against the error message. */
+  retryOnErrors: string[];
+  /** Delay before the first retry; doubled for every following one. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Randomise each delay between 50% and 100% of its computed value. */
+  jitter: boolean;
+  /** Wait as long as a `Retry-After` header asks (capped at `maxDelayMs`). */
+  respectRetryAfter: boolean;
+  /** Allow retrying POST and PATCH, which are not idempotent. */
+  retryNonIdempotent: boolean;
+}
+
+/** One attempt of a request, as recorded on `ApiResponse.attempts`. */
+export interface RetryAttempt {
+  attempt: number;
+  status?: number;
+  error?: string;
+  elapsedMs: number;
+  /** Delay before the next attempt; absent on the final attempt. */
+  delayMs?: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  retryOnStatuses: [429, 502, 503, 504],
+  retryOnErrors: [
+    "ECONNRESET",
+    "ECONNREFUSED",
+    "ETIMEDOUT",
+    "EPIPE",
+    "EAI_AGAIN",
+    "socket hang up",
+  ],
+  baseDelayMs: 200,
+  maxDelayMs: 10000,
+  jitter: true,
+  respectRetryAfter: true,
+  retryNonIdempotent: false,
+};
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+/** Merges partial policies over the defaults; later policies win. */
+export function resolveRetryPolicy(
+  ...policies: (Partial<RetryPolicy> | undefined)[]
+): RetryPolicy {
+  return Object.assign({}, DEFAULT_RETRY_POLICY, ...policies);
+}
+
+export function canRetryMethod(policy: RetryPolicy, method: string) {
+  return (
+    policy.retryNonIdempotent ||
+    IDEMPOTENT_METHODS.includes(method.toUpperCase())
+  );
+}
+
+export function isRetryableError(policy: RetryPolicy, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  return policy.retryOnErrors.some((code) => message.includes(code));
+}
+
+/**
+ * Parses a `Retry-After` header given either in seconds or as an HTTP date.
+ * Returns `undefined` when the header is missing or unparsable.
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()) {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Exponential backoff for the retry following `attempt` (1-based). */
+export function backoffDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfter?: string
+) {
+  const retryAfterMs = policy.respectRetryAfter
+    ? parseRetryAfter(retryAfter)
+    : undefined;
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+  const delay = Math.min(
+    policy.baseDelayMs * 2 ** (attempt - 1),
+    policy.maxDelayMs
+  );
+  return Math.round(policy.jitter ? delay * (0.5 + Math.random() / 2) : delay);
+}
+
+export function describeAttempt(attempt: RetryAttempt) {
+  const outcome = attempt.error ?? `status ${attempt.status}`;
+  const next =
+    attempt.delayMs === undefined ? "" : `, retrying in ${attempt.delayMs}ms`;
+  return `attempt ${attempt.attempt}: ${outcome} after ${attempt.elapsedMs}ms${next}`;
+}
@@ -0,0 +1,487 @@
+import { expect, test } from "@playwright/test";
+import type { TestDetails, TestInfo } from "@playwright/test";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { ApiHelper, ApiResponse, currentTestInfo } from "./api-helper";
+import { DataFileError } from "./data-driven";
+import {
+  buildPath,
+  callEndpoint,
+  EndpointRegistry,
+  findEndpoint,
+  HttpMethod,
+} from "./endpoint-client";
+import { matchesStatus } from "./schema-matchers";
+import {
+  formatZodIssues,
+  ResponseSchema,
+  StatusClass,
+} from "./schema-validation";
+
+const ROOT_DIR = path.resolve(__dirname, "..");
+
+type ExpectedStatus = number | StatusClass;
+
+export interface ScenarioStep {
+  name: string;
+  /** Dotted name in the endpoint registry, e.g. `auth.login`. */
+  endpoint?: string;
+  /** Method and path of a request that is not in the registry. */
+  method?: HttpMethod;
+  path?: string;
+  /** Values of the `:param` segments of the path. */
+  params?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  expect?: {
+    /** Default: any 2xx. */
+    status?: ExpectedStatus | ExpectedStatus[];
+    /** A schema, or its name in the schema registry; replaces the endpoint's. */
+    schema?: string | ResponseSchema;
+    /** Partially matched against the response body. */
+    body?: unknown;
+  };
+  /** Variable name → JSONPath into the response body, e.g. `$.accessToken`. */
+  extract?: Record<string, string>;
+}
+
+/**
+ * A flow of API requests. Strings in a step may reference variables as
+ * `{{name}}`; a string that is only a reference keeps the variable's type.
+ */
+export interface Scenario {
+  name: string;
+  variables?: Record<string, unknown>;
+  steps: ScenarioStep[];
+}
+
+const STATUS_SCHEMA = z.union([
+  z.number().int(),
+  z.enum(["1xx", "2xx", "3xx", "4xx", "5xx"]),
+]);
+
+/** Shape of a scenario file; schemas are referenced by name. */
+export const SCENARIO_SCHEMA = z
+  .object({
+    name: z.string().min(1),
+    variables: z.record(z.unknown()).optional(),
+    steps: z
+      .array(
+        z
+          .object({
+            name: z.string().min(1),
+            endpoint: z.string().min(1).optional(),
+            method: z
+              .enum(["GET", "POST", "PUT", "PATCH", "DELETE"])
+              .optional(),
+            path: z.string().startsWith("/").optional(),
+            params: z.record(z.unknown()).optional(),
+            headers: z.record(z.string()).optional(),
+            query: z.record(z.unknown()).optional(),
+            body: z.unknown().optional(),
+            expect: z
+              .object({
+                status: z.union([STATUS_SCHEMA, z.array(STATUS_SCHEMA)]),
+                schema: z.string().min(1),
+                body: z.unknown(),
+              })
+              .partial()
+              .strict()
+              .optional(),
+            extract: z.record(z.string().startsWith("$")).optional(),
+          })
+          .strict()
+          .refine((step) => step.endpoint || (step.method && step.path), {
+            message: "a step needs an `endpoint` or a `method` and `path`",
+          })
+      )
+      .min(1),
+  })
+  .strict();
+
+/** Thrown when a step cannot be built or its response is not as expected. */
+export class ScenarioError extends Error {
+  constructor(
+    readonly scenario: string,
+    readonly step: string,
+    message: string
+  ) {
+    super(`Scenario "${scenario}", step "${step}": ${message}`);
+    this.name = "ScenarioError";
+  }
+}
+
+type PathToken = string | number | "*" | { key: string; value: unknown };
+
+function parsePath(expression: string): PathToken[] {
+  if (!expression.startsWith("$")) {
+    throw new Error(`JSONPath must start with "$": ${expression}`);
+  }
+  const pattern =
+    /\.([A-Za-z_$][\w$-]*)|\.\*|\[(\*|-?\d+|'[^']*'|"[^"]*")\]|\[\?\(@\.([\w$]+)\s*==\s*('[^']*'|"[^"]*"|[^)\s]+)\)\]/y;
+  const tokens: PathToken[] = [];
+  pattern.lastIndex = 1;
+  while (pattern.lastIndex < expression.length) {
+    const start = pattern.lastIndex;
+    const match = pattern.exec(expression);
+    if (!match) {
+      throw new Error(
+        `Unsupported JSONPath syntax at position ${start}: ${expression}`
+      );
+    }
+    const [, name, bracket, filterKey, filterValue] = match;
+    if (name !== undefined) {
+      tokens.push(name);
+    } else if (filterKey !== undefined) {
+      tokens.push({
+        key: filterKey,
+        value: /^['"]/.test(filterValue)
+          ? filterValue.slice(1, -1)
+          : JSON.parse(filterValue),
+      });
+    } else if (bracket === undefined || bracket === "*") {
+      tokens.push("*");
+    } else if (/^['"]/.test(bracket)) {
+      tokens.push(bracket.slice(1, -1));
+    } else {
+      tokens.push(Number(bracket));
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Every value `expression` selects in `value`. Supports the JSONPath subset
+ * `$.key`, `$['key']`, `[0]`, `[-1]`, `[*]`, `.*` and `[?(@.key==value)]`.
+ */
+export function queryJsonPath(value: unknown, expression: string): unknown[] {
+  let nodes = [value];
+  for (const token of parsePath(expression)) {
+    nodes = nodes.flatMap((node): unknown[] => {
+      if (node === null || typeof node !== "object") {
+        return [];
+      }
+      if (token === "*") {
+        return Object.values(node);
+      }
+      if (typeof token === "object") {
+        return (Array.isArray(node) ? node : Object.values(node)).filter(
+          (item) => item?.[token.key] === token.value
+        );
+      }
+      if (typeof token === "number") {
+        const items = Array.isArray(node) ? node : [];
+        const index = token < 0 ? items.length + token : token;
+        return index in items ? [items[index]] : [];
+      }
+      return Object.hasOwn(node, token)
+        ? [(node as Record<string, unknown>)[token]]
+        : [];
+    });
+  }
+  return nodes;
+}
+
+/**
+ * The value `expression` selects: a single value for a definite path, an
+ * array of matches when it contains wildcards or filters. Throws when
+ * nothing matches a definite path.
+ */
+export function extractJsonPath(value: unknown, expression: string) {
+  const matches = queryJsonPath(value, expression);
+  const definite = parsePath(expression).every(
+    (token) => token !== "*" && typeof token !== "object"
+  );
+  if (!definite) {
+    return matches;
+  }
+  if (matches.length === 0) {
+    throw new Error(`${expression} matched nothing`);
+  }
+  return matches[0];
+}
+
+/** Replaces `{{name}}` references (dotted paths allowed) in strings of `value`. */
+export function interpolate<T>(
+  value: T,
+  variables: Record<string, unknown>
+): T {
+  const lookup = (name: string) => {
+    let current: unknown = variables;
+    for (const key of name.split(".")) {
+      if (
+        current === null ||
+        typeof current !== "object" ||
+        !Object.hasOwn(current, key)
+      ) {
+        throw new Error(`Unknown variable "${name}"`);
+      }
+      current = (current as Record<string, unknown>)[key];
+    }
+    return current;
+  };
+  if (typeof value === "string") {
+    const whole = /^\{\{\s*([\w.]+)\s*\}\}$/.exec(value);
+    if (whole) {
+      return lookup(whole[1]) as T;
+    }
+    return value.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, name: string) => {
+      const resolved = lookup(name);
+      return typeof resolved === "string" ? resolved : JSON.stringify(resolved);
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolate(item, variables)) as T;
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        interpolate(item, variables),
+      ])
+    ) as T;
+  }
+  return value;
+}
+
+/** Reads and validates a JSON scenario file relative to the repository root. */
+export function loadScenario(file: string): Scenario {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(path.resolve(ROOT_DIR, file), "utf-8"));
+  } catch (error) {
+    throw new DataFileError(file, [String((error as Error).message)]);
+  }
+  const result = SCENARIO_SCHEMA.safeParse(data);
+  if (!result.success) {
+    throw new DataFileError(file, [formatZodIssues(result.error.issues, data)]);
+  }
+  return result.data;
+}
+
+export interface ScenarioOptions {
+  /** Endpoints that steps can name, e.g. `ENDPOINTS`. */
+  endpoints?: EndpointRegistry;
+  /** Schemas that steps can name in `expect.schema`. */
+  schemas?: Record<string, ResponseSchema>;
+  /** Initial variables; the scenario's own variables take precedence. */
+  variables?: Record<string, unknown>;
+  /** Receives one report attachment per step (default: the running test). */
+  testInfo?: TestInfo;
+}
+
+export interface ScenarioStepReport {
+  name: string;
+  method: string;
+  url: string;
+  status: number;
+  elapsedMs: number;
+  extracted: Record<string, unknown>;
+}
+
+export interface ScenarioResult {
+  name: string;
+  steps: ScenarioStepReport[];
+  /** Variables after the last step, including every extracted value. */
+  variables: Record<string, unknown>;
+}
+
+function resolveSchema(
+  schema: string | ResponseSchema | undefined,
+  schemas: Record<string, ResponseSchema>,
+  fail: (message: string) => ScenarioError
+) {
+  if (typeof schema !== "string") {
+    return schema;
+  }
+  if (!Object.hasOwn(schemas, schema)) {
+    throw fail(
+      `unknown schema "${schema}". Available schemas: ${Object.keys(
+        schemas
+      ).join(", ")}`
+    );
+  }
+  return schemas[schema];
+}
+
+async function sendStep(
+  apiHelper: ApiHelper,
+  step: ScenarioStep,
+  options: ScenarioOptions,
+  fail: (message: string) => ScenarioError
+): Promise<ApiResponse> {
+  const schema = resolveSchema(
+    step.expect?.schema,
+    options.schemas ?? {},
+    fail
+  );
+  if (step.endpoint) {
+    const endpoint = findEndpoint(options.endpoints ?? {}, step.endpoint);
+    if (!endpoint) {
+      throw fail(`unknown endpoint "${step.endpoint}"`);
+    }
+    return await callEndpoint(
+      apiHelper,
+      schema ? { ...endpoint, response: schema } : endpoint,
+      {
+        ...step.params,
+        headers: step.headers,
+        query: step.query,
+        body: step.body,
+      }
+    );
+  }
+  return await apiHelper.makeRequest(
+    step.method!,
+    buildPath(step.path!, step.params ?? {}),
+    step.headers,
+    step.body,
+    step.query,
+    schema
+  );
+}
+
+/**
+ * Runs the steps of `scenario` in order through `apiHelper`, each as its own
+ * `test.step` with a JSON report attached. Values extracted from a response
+ * are available to every later step.
+ */
+export async function runScenario(
+  apiHelper: ApiHelper,
+  scenario: Scenario,
+  options: ScenarioOptions = {}
+): Promise<ScenarioResult> {
+  const testInfo = options.testInfo ?? currentTestInfo();
+  const variables: Record<string, unknown> = {
+    ...options.variables,
+    ...scenario.variables,
+  };
+  const reports: ScenarioStepReport[] = [];
+
+  for (const [index, definition] of scenario.steps.entries()) {
+    const title = `${index + 1}. ${definition.name}`;
+    const fail = (message: string) =>
+      new ScenarioError(scenario.name, definition.name, message);
+    await test.step(title, async () => {
+      let step: ScenarioStep;
+      try {
+        const {
+          path,
+          params,
+          headers,
+          query,
+          body,
+          expect: checks,
+        } = definition;
+        step = {
+          ...definition,
+          ...interpolate({ path, params, headers, query, body }, variables),
+          expect: checks && {
+            ...checks,
+            body: interpolate(checks.body, variables),
+          },
+        };
+      } catch (error) {
+        throw fail((error as Error).message);
+      }
+      const response = await sendStep(apiHelper, step, options, fail);
+      const report: ScenarioStepReport = {
+        name: step.name,
+        method: response.method,
+        url: response.url,
+        status: response.status,
+        elapsedMs: response.elapsedMs,
+        extracted: {},
+      };
+      try {
+        const expected = step.expect?.status ?? "2xx";
+        const accepted = Array.isArray(expected) ? expected : [expected];
+        if (
+          !accepted.some((status) => matchesStatus(response.status, status))
+        ) {
+          throw fail(
+            `expected status ${accepted.join(" or ")}, received ${
+              response.status
+            } from ${response.method} ${response.url}: ${JSON.stringify(
+              response.body
+            )?.slice(0, 300)}`
+          );
+        }
+        if (step.expect?.body !== undefined) {
+          if (
+            step.expect.body !== null &&
+            typeof step.expect.body === "object"
+          ) {
+            expect(response.body, title).toMatchObject(
+              step.expect.body as Record<string, unknown>
+            );
+          } else {
+            expect(response.body, title).toEqual(step.expect.body);
+          }
+        }
+        for (const [name, expression] of Object.entries(step.extract ?? {})) {
+          try {
+            report.extracted[name] = extractJsonPath(response.body, expression);
+          } catch (error) {
+            throw fail(`cannot extract "${name}": ${(error as Error).message}`);
+          }
+        }
+        Object.assign(variables, report.extracted);
+      } finally {
+        reports.push(report);
+        await testInfo?.attach(`${scenario.name} › ${title}`, {
+          body: JSON.stringify(report, null, 2),
+          contentType: "application/json",
+        });
+      }
+    });
+  }
+  return { name: scenario.name, steps: reports, variables };
+}
+
+export interface ScenarioCasesOptions {
+  /** Tag applied to every case, e.g. `@API`. */
+  tag?: string | string[];
+}
+
+/** One scenario, ready to be declared as a test. */
+export interface ScenarioCase {
+  title: string;
+  /** Tag and `scenario` annotation, passed as the test's details. */
+  details: TestDetails;
+  scenario: Scenario;
+}
+
+/**
+ * Loads scenarios, given as definitions or JSON files, as one case each for
+ * the spec to declare as a test that runs it with the `runScenario` fixture:
+ *
+ * ```ts
+ * for (const { title, details, scenario } of scenarioCases(files, { tag: "@API" })) {
+ *   test(title, details, async ({ runScenario }) => { await runScenario(scenario); });
+ * }
+ * ```
+ *
+ * Every case carries a `scenario` annotation naming its file or scenario.
+ */
+export function scenarioCases(
+  scenarios: (string | Scenario)[],
+  options: ScenarioCasesOptions = {}
+): ScenarioCase[] {
+  return scenarios.map((entry) => {
+    const scenario = typeof entry === "string" ? loadScenario(entry) : entry;
+    return {
+      title: scenario.name,
+      details: {
+        tag: options.tag,
+        annotation: {
+          type: "scenario",
+          description: typeof entry === "string" ? entry : scenario.name,
+        },
+      },
+      scenario,
+    };
+  });
+}
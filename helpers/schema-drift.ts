@@ -0,0 +1,568 @@
+import { z } from "zod";
+import type { ApiHelper } from "./api-helper";
+import { Endpoint } from "./endpoint-client";
+import { matchesStatus } from "./schema-matchers";
+import type { LoginCredentials } from "../schemas/schema";
+
+/**
+ * Structural description of a payload, produced either from a committed Zod
+ * schema (`describeSchema`) or from observed JSON (`inferShape`), so the two
+ * can be compared field by field.
+ */
+export type ShapeNode = (
+  | {
+      type: "string";
+      format?: StringFormat;
+      /** Enum values of a committed schema, or distinct observed values. */
+      values?: string[];
+    }
+  | { type: "number"; integer?: boolean }
+  | { type: "boolean" }
+  | { type: "null" }
+  | { type: "unknown" }
+  | { type: "array"; items: ShapeNode }
+  | { type: "record"; values: ShapeNode }
+  | {
+      type: "object";
+      properties: Record<string, ShapeNode>;
+      required: string[];
+      /** Unknown keys are rejected (`.strict()`). */
+      strict?: boolean;
+    }
+  | { type: "union"; options: ShapeNode[] }
+) & { nullable?: boolean };
+
+export type StringFormat = "email" | "url" | "datetime";
+
+export interface SchemaChange {
+  /** Dotted path such as `carts[].products[].title`. */
+  path: string;
+  kind:
+    | "added"
+    | "removed"
+    | "type-changed"
+    | "format-changed"
+    | "enum-values-added";
+  /** Whether the committed schema rejects the observed payload. */
+  breaking: boolean;
+  message: string;
+}
+
+/** Above this many distinct observed values a string is not treated as an enum. */
+const MAX_OBSERVED_VALUES = 20;
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATETIME =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+function detectFormat(value: string): StringFormat | undefined {
+  if (EMAIL.test(value)) {
+    return "email";
+  }
+  if (DATETIME.test(value)) {
+    return "datetime";
+  }
+  return /^https?:\/\/\S+$/.test(value) ? "url" : undefined;
+}
+
+/** Describes a committed Zod schema as a `ShapeNode`. */
+export function describeSchema(schema: z.ZodTypeAny): ShapeNode {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return describeSchema(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { ...describeSchema(schema.unwrap()), nullable: true };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return describeSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, ShapeNode> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+      properties[key] = describeSchema(value);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    }
+    return {
+      type: "object",
+      properties,
+      required,
+      strict: schema._def.unknownKeys === "strict",
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: "array", items: describeSchema(schema.element) };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: "record", values: describeSchema(schema.valueSchema) };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return {
+      type: "union",
+      options: (schema.options as z.ZodTypeAny[]).map(describeSchema),
+    };
+  }
+  if (schema instanceof z.ZodString) {
+    const format = schema._def.checks
+      .map((check) => check.kind)
+      .find((kind): kind is StringFormat =>
+        ["email", "url", "datetime"].includes(kind)
+      );
+    return { type: "string", format };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", values: [...schema.options] };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    const value = schema.value;
+    return typeof value === "string"
+      ? { type: "string", values: [value] }
+      : inferShape(value);
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: "number", integer: schema.isInt };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean" };
+  }
+  if (schema instanceof z.ZodNull) {
+    return { type: "null" };
+  }
+  return { type: "unknown" };
+}
+
+/** Infers a `ShapeNode` from one observed JSON value. */
+function inferOne(value: unknown): ShapeNode {
+  if (value === null) {
+    return { type: "null" };
+  }
+  if (Array.isArray(value)) {
+    return {
+      type: "array",
+      items: value.length
+        ? value.map(inferOne).reduce(mergeShapes)
+        : { type: "unknown" },
+    };
+  }
+  switch (typeof value) {
+    case "string":
+      return { type: "string", format: detectFormat(value), values: [value] };
+    case "number":
+      return { type: "number", integer: Number.isInteger(value) };
+    case "boolean":
+      return { type: "boolean" };
+    case "object": {
+      const properties = Object.fromEntries(
+        Object.entries(value as object).map(([key, nested]) => [
+          key,
+          inferOne(nested),
+        ])
+      );
+      return { type: "object", properties, required: Object.keys(properties) };
+    }
+    default:
+      return { type: "unknown" };
+  }
+}
+
+/**
+ * Infers a `ShapeNode` from observed payloads. With several samples, fields
+ * missing from some of them become optional and differing types a union.
+ */
+export function inferShape(...samples: unknown[]): ShapeNode {
+  return samples.map(inferOne).reduce(mergeShapes);
+}
+
+function mergeShapes(a: ShapeNode, b: ShapeNode): ShapeNode {
+  const nullable = a.nullable || b.nullable || undefined;
+  if (a.type === "null" && b.type !== "null") {
+    return { ...b, nullable: true };
+  }
+  if (b.type === "null" && a.type !== "null") {
+    return { ...a, nullable: true };
+  }
+  if (a.type === "unknown") {
+    return b;
+  }
+  if (b.type === "unknown") {
+    return a;
+  }
+  if (a.type === "string" && b.type === "string") {
+    const values =
+      a.values && b.values
+        ? [...new Set([...a.values, ...b.values])]
+        : undefined;
+    return {
+      type: "string",
+      format: a.format === b.format ? a.format : undefined,
+      values:
+        values && values.length <= MAX_OBSERVED_VALUES ? values : undefined,
+      nullable,
+    };
+  }
+  if (a.type === "number" && b.type === "number") {
+    return { type: "number", integer: a.integer && b.integer, nullable };
+  }
+  if (a.type === "array" && b.type === "array") {
+    return { type: "array", items: mergeShapes(a.items, b.items), nullable };
+  }
+  if (a.type === "object" && b.type === "object") {
+    const properties = { ...a.properties };
+    for (const [key, value] of Object.entries(b.properties)) {
+      properties[key] = properties[key]
+        ? mergeShapes(properties[key], value)
+        : value;
+    }
+    return {
+      type: "object",
+      properties,
+      required: a.required.filter((key) => b.required.includes(key)),
+      nullable,
+    };
+  }
+  if (a.type === b.type) {
+    return { ...a, nullable };
+  }
+  const options = a.type === "union" ? [...a.options] : [a];
+  for (const option of b.type === "union" ? b.options : [b]) {
+    const index = options.findIndex((o) => o.type === option.type);
+    if (index === -1) {
+      options.push(option);
+    } else {
+      options[index] = mergeShapes(options[index], option);
+    }
+  }
+  return { type: "union", options, nullable };
+}
+
+/** `string`, `number[]`, `string | null`, ... */
+export function describeType(node: ShapeNode): string {
+  let type: string;
+  switch (node.type) {
+    case "array":
+      type = `${describeType(node.items)}[]`;
+      break;
+    case "record":
+      type = `Record<string, ${describeType(node.values)}>`;
+      break;
+    case "union":
+      type = node.options.map(describeType).join(" | ");
+      break;
+    default:
+      type = node.type;
+  }
+  return node.nullable ? `${type} | null` : type;
+}
+
+function sameType(expected: ShapeNode, actual: ShapeNode): boolean {
+  if (expected.type === "unknown" || actual.type === "unknown") {
+    return true;
+  }
+  if (expected.type === "union") {
+    return expected.options.some((option) => sameType(option, actual));
+  }
+  if (actual.type === "union") {
+    return actual.options.every((option) => sameType(expected, option));
+  }
+  return (
+    expected.type === actual.type ||
+    (expected.type === "record" && actual.type === "object")
+  );
+}
+
+function childPath(path: string, key: string) {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Compares the committed `expected` shape with the `actual` observed one and
+ * lists every difference: added and removed fields, type and format changes
+ * and new enum values.
+ */
+export function diffShapes(
+  expected: ShapeNode,
+  actual: ShapeNode,
+  path = ""
+): SchemaChange[] {
+  const at = path || "<root>";
+  const becameNullable =
+    actual.nullable && !expected.nullable && expected.type !== "unknown";
+  if (becameNullable || !sameType(expected, actual)) {
+    return [
+      {
+        path: at,
+        kind: "type-changed",
+        breaking: true,
+        message: `expected ${describeType(expected)}, received ${describeType(
+          actual
+        )}`,
+      },
+    ];
+  }
+  if (expected.type === "union" && actual.type !== "union") {
+    const option = expected.options.find((o) => sameType(o, actual));
+    return option ? diffShapes(option, actual, path) : [];
+  }
+
+  const changes: SchemaChange[] = [];
+  if (expected.type === "object" && actual.type === "object") {
+    for (const [key, value] of Object.entries(actual.properties)) {
+      const nested = childPath(path, key);
+      if (!expected.properties[key]) {
+        changes.push({
+          path: nested,
+          kind: "added",
+          breaking: !!expected.strict,
+          message: `new field (${describeType(value)})${
+            expected.strict ? ", rejected by the strict schema" : ""
+          }`,
+        });
+      } else {
+        changes.push(...diffShapes(expected.properties[key], value, nested));
+      }
+    }
+    for (const key of expected.required) {
+      if (!(key in actual.properties)) {
+        changes.push({
+          path: childPath(path, key),
+          kind: "removed",
+          breaking: true,
+          message: "required field is missing from the response",
+        });
+      } else if (!actual.required.includes(key)) {
+        changes.push({
+          path: childPath(path, key),
+          kind: "removed",
+          breaking: true,
+          message: "required field is missing from some responses",
+        });
+      }
+    }
+  } else if (expected.type === "record" && actual.type === "object") {
+    for (const [key, value] of Object.entries(actual.properties)) {
+      changes.push(...diffShapes(expected.values, value, childPath(path, key)));
+    }
+  } else if (expected.type === "array" && actual.type === "array") {
+    changes.push(...diffShapes(expected.items, actual.items, `${path}[]`));
+  } else if (expected.type === "string" && actual.type === "string") {
+    if (expected.values && actual.values) {
+      const added = actual.values.filter((v) => !expected.values!.includes(v));
+      if (added.length) {
+        changes.push({
+          path: at,
+          kind: "enum-values-added",
+          breaking: true,
+          message: `new enum values ${added
+            .map((v) => JSON.stringify(v))
+            .join(", ")} (expected one of ${expected.values
+            .map((v) => JSON.stringify(v))
+            .join(", ")})`,
+        });
+      }
+    } else if (expected.values && !actual.values) {
+      changes.push({
+        path: at,
+        kind: "enum-values-added",
+        breaking: true,
+        message: `more than ${MAX_OBSERVED_VALUES} distinct values for an enum`,
+      });
+    }
+    if (expected.format && expected.format !== actual.format) {
+      changes.push({
+        path: at,
+        kind: "format-changed",
+        breaking: true,
+        message: `expected every value to be a valid ${expected.format}`,
+      });
+    }
+  } else if (expected.type === "number" && actual.type === "number") {
+    if (expected.integer && !actual.integer) {
+      changes.push({
+        path: at,
+        kind: "type-changed",
+        breaking: true,
+        message: "expected integers, received fractional numbers",
+      });
+    }
+  }
+  return changes;
+}
+
+/** Renders changes as a diff-like report, one line per change. */
+export function formatDrift(title: string, changes: SchemaChange[]) {
+  if (!changes.length) {
+    return `${title}: no drift`;
+  }
+  const marker: Record<SchemaChange["kind"], string> = {
+    added: "+",
+    removed: "-",
+    "type-changed": "~",
+    "format-changed": "~",
+    "enum-values-added": "~",
+  };
+  return [
+    `${title}: ${changes.length} change(s)`,
+    ...changes.map(
+      (change) =>
+        `  ${marker[change.kind]} ${change.path}: ${change.message}${
+          change.breaking ? "" : " (compatible)"
+        }`
+    ),
+  ].join("\n");
+}
+
+function indentLines(source: string, indent: string) {
+  return source.replace(/\n/g, `\n${indent}`);
+}
+
+/**
+ * Emits Zod source for an observed shape. The committed shape, when given,
+ * keeps decisions the samples cannot make: enums stay enums (extended with new
+ * values), `.strict()` and `.int()` are preserved.
+ */
+export function toZodSource(actual: ShapeNode, committed?: ShapeNode): string {
+  let source: string;
+  const hint = committed?.type === actual.type ? committed : undefined;
+  switch (actual.type) {
+    case "object": {
+      const objectHint = hint?.type === "object" ? hint : undefined;
+      const keys = Object.keys(actual.properties);
+      const fields = keys.map((key) => {
+        const optional = actual.required.includes(key) ? "" : ".optional()";
+        const field = toZodSource(
+          actual.properties[key],
+          objectHint?.properties[key]
+        );
+        const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+        return `  ${name}: ${indentLines(field, "  ")}${optional},`;
+      });
+      source = keys.length
+        ? `z.object({\n${fields.join("\n")}\n})`
+        : "z.object({})";
+      if (objectHint?.strict) {
+        source += ".strict()";
+      }
+      break;
+    }
+    case "array":
+      source = `z.array(${toZodSource(
+        actual.items,
+        hint?.type === "array" ? hint.items : undefined
+      )})`;
+      break;
+    case "string": {
+      const stringHint = hint?.type === "string" ? hint : undefined;
+      if (stringHint?.values) {
+        const values = [
+          ...new Set([...stringHint.values, ...(actual.values ?? [])]),
+        ];
+        source = `z.enum([${values.map((v) => JSON.stringify(v)).join(", ")}])`;
+      } else {
+        source = "z.string()";
+        if (
+          actual.format &&
+          (!stringHint || stringHint.format === actual.format)
+        ) {
+          source += `.${actual.format}()`;
+        }
+      }
+      break;
+    }
+    case "number":
+      source =
+        hint?.type === "number" && hint.integer && actual.integer
+          ? "z.number().int()"
+          : "z.number()";
+      break;
+    case "boolean":
+      source = "z.boolean()";
+      break;
+    case "null":
+      source = "z.null()";
+      break;
+    case "record":
+      source = `z.record(${toZodSource(actual.values)})`;
+      break;
+    case "union":
+      source = `z.union([${actual.options
+        .map((option) => toZodSource(option))
+        .join(", ")}])`;
+      break;
+    default:
+      source = "z.unknown()";
+  }
+  return actual.nullable ? `${source}.nullable()` : source;
+}
+
+/** A complete TypeScript module exporting the updated schema as `name`. */
+export function toSchemaModule(
+  name: string,
+  actual: ShapeNode,
+  committed?: ShapeNode
+) {
+  return `import { z } from "zod";\n\nexport const ${name} = ${toZodSource(
+    actual,
+    committed
+  )};\n`;
+}
+
+/** One committed schema and the request whose responses it describes. */
+export interface DriftTarget {
+  /** Name of the schema export in `schemas/schema.ts`. */
+  schemaName: string;
+  schema: z.ZodTypeAny;
+  endpoint: Endpoint;
+  query?: Record<string, unknown>;
+  body?: unknown | ((credentials: LoginCredentials) => unknown);
+  /** Send the request as the environment's logged-in user. */
+  authenticated?: boolean;
+  /** Picks the payloads to infer from (default: the whole response body). */
+  samples?: (body: any) => unknown[];
+}
+
+export interface DriftResult {
+  changes: SchemaChange[];
+  /** `formatDrift` output for the target. */
+  report: string;
+  /** `toSchemaModule` output: the schema updated to the observed payloads. */
+  source: string;
+}
+
+/**
+ * Sends the request of `target` with `helper` and diffs the payloads it
+ * returns against the committed schema. The helper must not validate
+ * responses (no OpenAPI contract, no `responseSchema`), or a drifted payload
+ * is rejected before it can be inferred.
+ */
+export async function checkSchemaDrift(
+  target: DriftTarget,
+  helper: ApiHelper,
+  credentials: LoginCredentials
+): Promise<DriftResult> {
+  const { method, path } = target.endpoint;
+  const body =
+    typeof target.body === "function" ? target.body(credentials) : target.body;
+  const response = await helper.makeRequest(
+    method,
+    path,
+    undefined,
+    body,
+    target.query
+  );
+  if (!matchesStatus(response.status, "2xx")) {
+    throw new Error(
+      `Schema drift check of ${target.schemaName} needs a 2xx response, received ${response.status} from ${method} ${path}`
+    );
+  }
+  const samples = target.samples?.(response.body) ?? [response.body];
+  const committed = describeSchema(target.schema);
+  const observed = inferShape(...samples);
+  const changes = diffShapes(committed, observed);
+  return {
+    changes,
+    report: formatDrift(`${target.schemaName} (${method} ${path})`, changes),
+    source: toSchemaModule(target.schemaName, observed, committed),
+  };
+}
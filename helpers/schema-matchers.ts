@@ -0,0 +1,205 @@
+import type { ExpectMatcherState, MatcherReturnType } from "@playwright/test";
+import { z } from "zod";
+import { ApiResponse } from "./api-helper";
+import { formatZodIssues, StatusClass } from "./schema-validation";
+
+/**
+ * Returns a copy of `schema` that tolerates unknown keys at every depth, so a
+ * `.strict()` schema such as `LOGIN_API_SCHEMA` can be checked against a
+ * payload that carries extra fields. Declared keys are still required, and
+ * defaults, refinements and transforms still apply. Objects are reached
+ * through arrays, tuples, records, unions, intersections and lazy schemas.
+ */
+export function relaxSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodObject) {
+    const shape: z.ZodRawShape = {};
+    for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+      shape[key] = relaxSchema(value);
+    }
+    return z.object(shape).passthrough();
+  }
+  if (schema instanceof z.ZodArray) {
+    return z.array(relaxSchema(schema.element));
+  }
+  if (schema instanceof z.ZodOptional) {
+    return relaxSchema(schema.unwrap()).optional();
+  }
+  if (schema instanceof z.ZodNullable) {
+    return relaxSchema(schema.unwrap()).nullable();
+  }
+  if (schema instanceof z.ZodUnion) {
+    return z.union(
+      (schema.options as z.ZodTypeAny[]).map(relaxSchema) as [
+        z.ZodTypeAny,
+        z.ZodTypeAny,
+        ...z.ZodTypeAny[]
+      ]
+    );
+  }
+  if (schema instanceof z.ZodDefault) {
+    return new z.ZodDefault({
+      ...schema._def,
+      innerType: relaxSchema(schema._def.innerType),
+    });
+  }
+  if (schema instanceof z.ZodEffects) {
+    return new z.ZodEffects({
+      ...schema._def,
+      schema: relaxSchema(schema._def.schema),
+    });
+  }
+  if (schema instanceof z.ZodRecord) {
+    return new z.ZodRecord({
+      ...schema._def,
+      valueType: relaxSchema(schema._def.valueType),
+    });
+  }
+  if (schema instanceof z.ZodTuple) {
+    return new z.ZodTuple({
+      ...schema._def,
+      items: (schema._def.items as z.ZodTypeAny[]).map(
+        relaxSchema
+      ) as z.ZodTupleItems,
+      rest: schema._def.rest && relaxSchema(schema._def.rest),
+    });
+  }
+  if (schema instanceof z.ZodIntersection) {
+    return z.intersection(
+      relaxSchema(schema._def.left),
+      relaxSchema(schema._def.right)
+    );
+  }
+  if (schema instanceof z.ZodLazy) {
+    let relaxed: z.ZodTypeAny | undefined;
+    return z.lazy(() => (relaxed ??= relaxSchema(schema.schema)));
+  }
+  return schema;
+}
+
+function schemaResult(
+  state: ExpectMatcherState,
+  matcherName: string,
+  received: unknown,
+  schema: z.ZodTypeAny
+): MatcherReturnType {
+  const result = schema.safeParse(received);
+  const hint = state.utils.matcherHint(matcherName, "body", "schema", {
+    isNot: state.isNot,
+  });
+  return {
+    name: matcherName,
+    pass: result.success,
+    actual: received,
+    message: () =>
+      result.success
+        ? `${hint}\n\nExpected body not to match the schema, but it did.\n\nReceived: ${state.utils.printReceived(
+            received
+          )}`
+        : `${hint}\n\nSchema violations:\n${formatZodIssues(
+            result.error.issues,
+            received
+          )
+            .split("\n")
+            .map((line) => `  ${line}`)
+            .join("\n")}`,
+  };
+}
+
+export function matchesStatus(status: number, expected: number | StatusClass) {
+  return typeof expected === "number"
+    ? status === expected
+    : `${Math.floor(status / 100)}xx` === expected;
+}
+
+/**
+ * Matchers added to the `expect` exported by `fixtures/api-fixture.ts`.
+ * They work with `expect.soft`, so a test can report every violation at once.
+ */
+export const schemaMatchers = {
+  toMatchSchema(
+    this: ExpectMatcherState,
+    received: unknown,
+    schema: z.ZodTypeAny
+  ) {
+    return schemaResult(this, "toMatchSchema", received, schema);
+  },
+
+  toMatchSchemaPartially(
+    this: ExpectMatcherState,
+    received: unknown,
+    schema: z.ZodTypeAny
+  ) {
+    return schemaResult(
+      this,
+      "toMatchSchemaPartially",
+      received,
+      relaxSchema(schema)
+    );
+  },
+
+  toHaveStatus(
+    this: ExpectMatcherState,
+    received: ApiResponse,
+    expected: number | StatusClass | (number | StatusClass)[]
+  ): MatcherReturnType {
+    const accepted = Array.isArray(expected) ? expected : [expected];
+    const pass = accepted.some((status) =>
+      matchesStatus(received.status, status)
+    );
+    const hint = this.utils.matcherHint("toHaveStatus", "response", "status", {
+      isNot: this.isNot,
+    });
+    return {
+      name: "toHaveStatus",
+      pass,
+      expected,
+      actual: received.status,
+      message: () =>
+        `${hint}\n\n${received.method} ${received.url}\n` +
+        `Expected status: ${this.isNot ? "not " : ""}${this.utils.printExpected(
+          expected
+        )}\n` +
+        `Received status: ${this.utils.printReceived(
+          `${received.status} ${received.statusText}`
+        )}`,
+    };
+  },
+
+  toHaveHeader(
+    this: ExpectMatcherState,
+    received: ApiResponse,
+    name: string,
+    expected?: string | RegExp
+  ): MatcherReturnType {
+    const actual = received.headers[name.toLowerCase()];
+    const pass =
+      actual !== undefined &&
+      (expected === undefined ||
+        (expected instanceof RegExp
+          ? expected.test(actual)
+          : actual === expected));
+    const hint = this.utils.matcherHint("toHaveHeader", "response", "header", {
+      isNot: this.isNot,
+    });
+    return {
+      name: "toHaveHeader",
+      pass,
+      expected,
+      actual,
+      message: () =>
+        `${hint}\n\n${received.method} ${received.url}\n` +
+        `Expected header "${name}"${
+          expected === undefined
+            ? ""
+            : ` ${this.isNot ? "not " : ""}to be ${this.utils.printExpected(
+                expected
+              )}`
+        }\n` +
+        `Received: ${
+          actual === undefined
+            ? "header is missing"
+            : this.utils.printReceived(actual)
+        }`,
+    };
+  },
+};
@@ -0,0 +1,164 @@
+import { z } from "zod";
+
+export type StatusClass = "1xx" | "2xx" | "3xx" | "4xx" | "5xx";
+
+/**
+ * Response schemas keyed by exact status code (`200`), status class (`"4xx"`)
+ * or `"default"`. The most specific key wins.
+ */
+export type StatusSchemaMap = Partial<
+  Record<number | StatusClass | "default", z.ZodTypeAny>
+>;
+
+export type ResponseSchema = z.ZodTypeAny | StatusSchemaMap;
+
+/** Body type produced by validating a response against `S`. */
+export type InferResponseBody<S> = S extends z.ZodTypeAny
+  ? z.infer<S>
+  : S extends StatusSchemaMap
+  ? {
+      [K in keyof S]: S[K] extends z.ZodTypeAny ? z.infer<S[K]> : never;
+    }[keyof S]
+  : any;
+
+/**
+ * Picks the schema that applies to `status`, or `undefined` when a status map
+ * declares nothing for it.
+ */
+export function resolveSchemaForStatus(
+  schema: ResponseSchema,
+  status: number
+): z.ZodTypeAny | undefined {
+  if (schema instanceof z.ZodType) {
+    return schema;
+  }
+  return (
+    schema[status] ??
+    schema[`${Math.floor(status / 100)}xx` as StatusClass] ??
+    schema.default
+  );
+}
+
+/** Renders a Zod issue path the way it would be written in code: `[2].email`. */
+export function formatIssuePath(path: (string | number)[]): string {
+  if (path.length === 0) {
+    return "<root>";
+  }
+  return path
+    .map((segment, index) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : index === 0
+        ? segment
+        : `.${segment}`
+    )
+    .join("");
+}
+
+function valueAtPath(input: unknown, path: (string | number)[]): unknown {
+  return path.reduce<any>(
+    (value, segment) => (value == null ? undefined : value[segment]),
+    input
+  );
+}
+
+function preview(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/**
+ * One line per issue, e.g. `[2].email: Invalid email (received "not-an-email")`.
+ * When `input` is given the offending value is appended so the failure reads
+ * as a diff between what the schema expected and what was received. Type
+ * mismatches name the value in place of its type, e.g.
+ * `price: Expected number, received "12.99"`.
+ */
+export function formatZodIssues(issues: z.ZodIssue[], input?: unknown): string {
+  return issues
+    .map((issue) => {
+      const path = formatIssuePath(issue.path);
+      const received =
+        input === undefined ? undefined : valueAtPath(input, issue.path);
+      if (received === undefined || issue.code === "unrecognized_keys") {
+        return `${path}: ${issue.message}`;
+      }
+      if (issue.code === "invalid_type") {
+        return `${path}: Expected ${issue.expected}, received ${preview(
+          received
+        )}`;
+      }
+      return `${path}: ${issue.message} (received ${preview(received)})`;
+    })
+    .join("\n");
+}
+
+export class SchemaValidationError extends Error {
+  constructor(
+    readonly method: string,
+    readonly url: string,
+    readonly status: number,
+    readonly issues: z.ZodIssue[],
+    body?: unknown
+  ) {
+    super(
+      `Response schema validation failed for ${method} ${url} (status ${status}):\n` +
+        formatZodIssues(issues, body)
+          .split("\n")
+          .map((line) => `  - ${line}`)
+          .join("\n")
+    );
+    this.name = "SchemaValidationError";
+  }
+}
+
+/**
+ * Validates `body` against the schema declared for `status` and returns the
+ * parsed value. Throws a `SchemaValidationError` on mismatch, or when a status
+ * map has no entry for the received status.
+ */
+export function validateResponseBody(
+  schema: ResponseSchema,
+  method: string,
+  url: string,
+  status: number,
+  body: unknown
+) {
+  const statusSchema = resolveSchemaForStatus(schema, status);
+  if (!statusSchema) {
+    throw new Error(
+      `No response schema declared for status ${status} of ${method} ${url}`
+    );
+  }
+  const result = statusSchema.safeParse(body);
+  if (!result.success) {
+    throw new SchemaValidationError(
+      method,
+      url,
+      status,
+      result.error.issues,
+      body
+    );
+  }
+  return result.data;
+}
+
+/** Thrown before a request is sent when its input does not match the schema. */
+export class RequestValidationError extends Error {
+  constructor(
+    readonly method: string,
+    readonly url: string,
+    readonly part: "body" | "query" | "path params",
+    readonly issues: z.ZodIssue[],
+    input?: unknown
+  ) {
+    super(
+      `Request ${part} validation failed for ${method} ${url}:\n` +
+        formatZodIssues(issues, input)
+          .split("\n")
+          .map((line) => `  - ${line}`)
+          .join("\n")
+    );
+    this.name = "RequestValidationError";
+  }
+}
@@ -0,0 +1,60 @@
+import { LoginResponse } from "../schemas/schema";
+import { ApiResponse } from "./api-helper";
+import { TokenPair } from "./authenticated-api-helper";
+
+export interface Session {
+  loginResponse: ApiResponse<LoginResponse>;
+  tokens: TokenPair;
+}
+
+/** The session a login response starts. */
+export function sessionFrom(
+  loginResponse: ApiResponse<LoginResponse>
+): Session {
+  return {
+    loginResponse,
+    tokens: {
+      accessToken: loginResponse.body.accessToken,
+      refreshToken: loginResponse.body.refreshToken,
+    },
+  };
+}
+
+/**
+ * Keeps one logged-in session per key (environment + username) for the
+ * lifetime of a worker, so each user logs in once instead of once per test.
+ * Concurrent lookups for the same key share a single login.
+ */
+export class SessionCache {
+  private sessions = new Map<string, Promise<Session>>();
+
+  async get(
+    key: string,
+    login: () => Promise<ApiResponse<LoginResponse>>
+  ): Promise<Session> {
+    let session = this.sessions.get(key);
+    if (!session) {
+      session = login().then(sessionFrom);
+      this.sessions.set(key, session);
+      // A failed login must not poison the cache for later tests.
+      session.catch(() => this.sessions.delete(key));
+    }
+    return await session;
+  }
+
+  /** Stores tokens obtained by a refresh so later tests start from them. */
+  async update(key: string, tokens: TokenPair) {
+    const session = this.sessions.get(key);
+    if (session) {
+      (await session).tokens = { ...tokens };
+    }
+  }
+
+  has(key: string) {
+    return this.sessions.has(key);
+  }
+
+  clear() {
+    this.sessions.clear();
+  }
+}
@@ -1,18 +1,28 @@
 import { defineConfig, devices } from "@playwright/test";
 import * as path from "path";
+import { EnvironmentName, loadEnvironment } from "./config/environments";
 
 const PULSE_REPORT_DIR = path.resolve(__dirname, "pulse-report");
 
+/* Delay between browser actions, e.g. `SLOW_MO=1000` to watch a run; waits are condition-based. */
+const SLOW_MO = Number(process.env.SLOW_MO ?? 0);
+
 /**
  * Read environment variables from file.
  * https://github.com/motdotla/dotenv
  */
 // require('dotenv').config();
 
+/* Fail fast on an unknown ENV or an invalid environment profile. */
+loadEnvironment();
+
 /**
  * See https://playwright.dev/docs/test-configuration.
  */
-export default defineConfig({
+export default defineConfig<
+  {},
+  { environmentName: EnvironmentName | undefined }
+>({
   testDir: "./tests",
   /* Run tests in files in parallel */
   fullyParallel: true,
@@ -24,8 +34,12 @@ export default defineConfig({
   workers: process.env.CI ? 1 : undefined,
   /* Reporter to use. See https://playwright.dev/docs/test-reporters */
   reporter: [
+    // Listed explicitly: the contract-coverage reporter prints its summary, so
+    // Playwright no longer adds its default progress reporter.
+    [process.env.CI ? "dot" : "line"],
     ["html"],
     ["json", { outputFile: "playwright-report/report.json" }],
+    ["./reporters/contract-coverage.ts"],
     [
       "@arghajit/playwright-pulse-report",
       {
@@ -51,20 +65,25 @@ export default defineConfig({
       use: {
         ...devices["Desktop Chrome"],
         launchOptions: {
-          slowMo: 1500,
+          slowMo: SLOW_MO,
           timeout: 300000,
           headless: true,
         },
       },
     },
 
+    {
+      name: "SCHEMA DRIFT",
+      grep: /@drift/,
+    },
+
     {
       name: "CHROME - UI TEST",
       grep: /@UI/,
       use: {
         ...devices["Desktop Chrome"],
         launchOptions: {
-          slowMo: 3000,
+          slowMo: SLOW_MO,
           timeout: 300000,
           headless: true,
         },
@@ -0,0 +1,84 @@
+import type { Reporter, TestCase, TestResult } from "@playwright/test/reporter";
+import fs from "fs";
+import path from "path";
+import { loadContract, loadEnvironment } from "../config/environments";
+import {
+  CONTRACT_ANNOTATION,
+  CONTRACT_VIOLATION_ANNOTATION,
+  contractCoverage,
+  formatCoverage,
+  OpenApiContract,
+} from "../helpers/openapi-contract";
+
+export interface ContractCoverageOptions {
+  /** Where the JSON summary is written (default `playwright-report/contract-coverage.json`). */
+  outputFile?: string;
+}
+
+/**
+ * Collects the operations exercised by every test (recorded by
+ * `OpenApiContract.verify`) and, at the end of a run that ran tests, prints
+ * which operation/status pairs of the environment's OpenAPI document were
+ * never exercised and which violations `OpenApiContract.check` recorded.
+ */
+class ContractCoverageReporter implements Reporter {
+  private contract?: OpenApiContract;
+  private readonly exercised = new Set<string>();
+  private readonly violations: { test: string; violation: string }[] = [];
+  private testsRun = 0;
+
+  constructor(private readonly options: ContractCoverageOptions = {}) {}
+
+  onBegin() {
+    this.contract = loadContract(loadEnvironment());
+  }
+
+  onTestEnd(test: TestCase, result: TestResult) {
+    this.testsRun++;
+    const violations = new Set<string>();
+    for (const annotation of [...test.annotations, ...result.annotations]) {
+      if (annotation.type === CONTRACT_ANNOTATION && annotation.description) {
+        this.exercised.add(annotation.description);
+      }
+      if (
+        annotation.type === CONTRACT_VIOLATION_ANNOTATION &&
+        annotation.description
+      ) {
+        violations.add(annotation.description);
+      }
+    }
+    for (const violation of violations) {
+      this.violations.push({ test: test.title, violation });
+    }
+  }
+
+  onEnd() {
+    if (!this.contract || !this.testsRun) {
+      return;
+    }
+    const coverage = contractCoverage(this.contract, this.exercised);
+    const violations = this.violations.map(
+      ({ test, violation }) => `  - ${test}: ${violation.split("\n")[0]}`
+    );
+    console.log(
+      `\n${formatCoverage(coverage)}` +
+        (violations.length
+          ? `\nContract violations:\n${violations.join("\n")}`
+          : "")
+    );
+    const outputFile = path.resolve(
+      this.options.outputFile ?? "playwright-report/contract-coverage.json"
+    );
+    fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+    fs.writeFileSync(
+      outputFile,
+      JSON.stringify({ ...coverage, violations: this.violations }, null, 2)
+    );
+  }
+
+  printsToStdio() {
+    return true;
+  }
+}
+
+export default ContractCoverageReporter;
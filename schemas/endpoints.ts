@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { defineEndpoint } from "../helpers/endpoint-client";
+import {
+  ADD_CART_SCHEMA,
+  API_ERROR_SCHEMA,
+  AUTH_USER_SCHEMA,
+  CART_SCHEMA,
+  CARTS_QUERY_SCHEMA,
+  CARTS_SCHEMA,
+  DELETED_CART_SCHEMA,
+  LOGIN_API_SCHEMA,
+  LOGIN_CREDENTIALS_SCHEMA,
+  REFRESH_TOKEN_SCHEMA,
+  UPDATE_CART_SCHEMA,
+} from "./schema";
+
+const ID_PARAM = z.coerce.number().int().positive();
+
+/**
+ * Registry of the dummyjson endpoints exercised by the suite. Use it through
+ * the `api` fixture or `createEndpointClient(helper, ENDPOINTS)`.
+ */
+export const ENDPOINTS = {
+  auth: {
+    login: defineEndpoint({
+      method: "POST",
+      path: "/auth/login",
+      body: LOGIN_CREDENTIALS_SCHEMA.extend({
+        expiresInMins: z.number().int().positive().optional(),
+      }),
+      response: { 200: LOGIN_API_SCHEMA, "4xx": API_ERROR_SCHEMA },
+    }),
+    me: defineEndpoint({
+      method: "GET",
+      path: "/auth/me",
+      response: { 200: AUTH_USER_SCHEMA, 401: API_ERROR_SCHEMA },
+    }),
+    refresh: defineEndpoint({
+      method: "POST",
+      path: "/auth/refresh",
+      body: z.object({
+        refreshToken: z.string().optional(),
+        expiresInMins: z.number().int().positive().optional(),
+      }),
+      response: { 200: REFRESH_TOKEN_SCHEMA, "4xx": API_ERROR_SCHEMA },
+    }),
+  },
+  carts: {
+    all: defineEndpoint({
+      method: "GET",
+      path: "/carts",
+      query: CARTS_QUERY_SCHEMA.optional(),
+      response: CARTS_SCHEMA,
+    }),
+    byId: defineEndpoint({
+      method: "GET",
+      path: "/carts/:cartId",
+      params: z.object({ cartId: ID_PARAM }),
+      response: { 200: CART_SCHEMA, 404: API_ERROR_SCHEMA },
+    }),
+    byUser: defineEndpoint({
+      method: "GET",
+      path: "/carts/user/:userId",
+      params: z.object({ userId: ID_PARAM }),
+      response: CARTS_SCHEMA,
+    }),
+    add: defineEndpoint({
+      method: "POST",
+      path: "/carts/add",
+      body: ADD_CART_SCHEMA,
+      response: { 201: CART_SCHEMA, "4xx": API_ERROR_SCHEMA },
+    }),
+    update: defineEndpoint({
+      method: "PUT",
+      path: "/carts/:cartId",
+      params: z.object({ cartId: ID_PARAM }),
+      body: UPDATE_CART_SCHEMA,
+      response: { 200: CART_SCHEMA, "4xx": API_ERROR_SCHEMA },
+    }),
+    delete: defineEndpoint({
+      method: "DELETE",
+      path: "/carts/:cartId",
+      params: z.object({ cartId: ID_PARAM }),
+      response: { 200: DELETED_CART_SCHEMA, "4xx": API_ERROR_SCHEMA },
+    }),
+  },
+};
@@ -17,3 +17,112 @@ export const LOGIN_API_SCHEMA = z
 export const getUserSchema = z
   .array(LOGIN_API_SCHEMA)
   .or(z.array(z.any()).length(0));
+
+export const LOGIN_CREDENTIALS_SCHEMA = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export const TEST_USER_SCHEMA = LOGIN_CREDENTIALS_SCHEMA.extend({
+  role: z.string().min(1),
+});
+
+export const USER_ROSTER_SCHEMA = z.record(TEST_USER_SCHEMA);
+
+export const REFRESH_TOKEN_SCHEMA = z.object({
+  accessToken: z.string(),
+  refreshToken: z.string(),
+});
+
+export const AUTH_USER_SCHEMA = z
+  .object({
+    id: z.number(),
+    username: z.string(),
+    email: z.string().email(),
+    firstName: z.string(),
+    lastName: z.string(),
+    gender: z.enum(["male", "female"]),
+    image: z.string().url(),
+  })
+  .passthrough();
+
+export const API_ERROR_SCHEMA = z.object({
+  message: z.string(),
+});
+
+export const CART_PRODUCT_SCHEMA = z.object({
+  id: z.number(),
+  title: z.string(),
+  price: z.number(),
+  quantity: z.number(),
+  total: z.number(),
+  discountPercentage: z.number(),
+  discountedTotal: z.number(),
+  thumbnail: z.string().url(),
+});
+
+export const CART_SCHEMA = z.object({
+  id: z.number(),
+  products: z.array(CART_PRODUCT_SCHEMA),
+  total: z.number(),
+  discountedTotal: z.number(),
+  userId: z.number(),
+  totalProducts: z.number(),
+  totalQuantity: z.number(),
+});
+
+export const CARTS_SCHEMA = z.object({
+  carts: z.array(CART_SCHEMA),
+  total: z.number(),
+  skip: z.number(),
+  limit: z.number(),
+});
+
+export const CARTS_QUERY_SCHEMA = z
+  .object({
+    limit: z.number().int().min(0),
+    skip: z.number().int().min(0),
+    select: z.string(),
+  })
+  .partial()
+  .strict();
+
+export const CART_ITEM_INPUT_SCHEMA = z.object({
+  id: z.number().int().positive(),
+  quantity: z.number().int().positive(),
+});
+
+export const ADD_CART_SCHEMA = z
+  .object({
+    userId: z.number().int().positive(),
+    products: z.array(CART_ITEM_INPUT_SCHEMA).min(1),
+  })
+  .strict();
+
+export const UPDATE_CART_SCHEMA = z
+  .object({
+    merge: z.boolean().optional(),
+    products: z.array(CART_ITEM_INPUT_SCHEMA).min(1),
+  })
+  .strict();
+
+export const DELETED_CART_SCHEMA = CART_SCHEMA.extend({
+  isDeleted: z.literal(true),
+  deletedOn: z.string().datetime(),
+});
+
+/** One row of `testData/loginCases.csv`: a login attempt and its outcome. */
+export const LOGIN_CASE_SCHEMA = z.object({
+  name: z.string().min(1),
+  username: z.string().optional(),
+  password: z.string().optional(),
+  expectedStatus: z.coerce.number().int(),
+  responseSchema: z.enum(["LOGIN_API_SCHEMA", "API_ERROR_SCHEMA"]),
+  message: z.string().optional(),
+});
+
+export type TestUser = z.infer<typeof TEST_USER_SCHEMA>;
+export type UserRoster = z.infer<typeof USER_ROSTER_SCHEMA>;
+export type LoginCredentials = z.infer<typeof LOGIN_CREDENTIALS_SCHEMA>;
+export type LoginResponse = z.infer<typeof LOGIN_API_SCHEMA>;
+export type Cart = z.infer<typeof CART_SCHEMA>;
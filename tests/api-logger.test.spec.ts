@@ -0,0 +1,144 @@
+import type { TestInfo } from "@playwright/test";
+import { test, expect } from "../fixtures/api-fixture";
+import {
+  ApiExchange,
+  ApiLogger,
+  DEFAULT_REDACTED_KEYS,
+  redact,
+  redactText,
+  redactUrl,
+  REDACTED,
+  toCurl,
+} from "../helpers/api-logger";
+
+const exchange: ApiExchange = {
+  startedAt: "2025-01-01T00:00:00.000Z",
+  durationMs: 42,
+  request: {
+    method: "POST",
+    url: "https://dummyjson.com/auth/login?token=abc&page=1",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: "Bearer secret",
+    },
+    body: { username: "emilys", password: "emilyspass" },
+  },
+  response: {
+    status: 200,
+    statusText: "OK",
+    headers: { "set-cookie": "accessToken=secret" },
+    body: { id: 1, accessToken: "secret", refreshToken: "secret" },
+  },
+};
+
+/**
+ * Suite for exchange logging and secret redaction in `ApiLogger`.
+ */
+test.describe("API logger", () => {
+  /** Secrets are masked at any depth, case-insensitively. */
+  test("redacts nested secrets", { tag: "@API" }, () => {
+    expect(
+      redact(
+        { user: { Password: "x", name: "emily" }, tokens: [{ token: "t" }] },
+        DEFAULT_REDACTED_KEYS
+      )
+    ).toEqual({
+      user: { Password: REDACTED, name: "emily" },
+      tokens: [{ token: REDACTED }],
+    });
+    expect(redactUrl(exchange.request.url, DEFAULT_REDACTED_KEYS)).toBe(
+      "https://dummyjson.com/auth/login?token=%5BREDACTED%5D&page=1"
+    );
+  });
+
+  /** Raw string bodies are redacted too: JSON text and `key=value` pairs. */
+  test("redacts secrets in text bodies", { tag: "@API" }, async () => {
+    expect(
+      redactText(
+        "username=emilys&password=p%40ss&Token=t",
+        DEFAULT_REDACTED_KEYS
+      )
+    ).toBe("username=emilys&password=%5BREDACTED%5D&Token=%5BREDACTED%5D");
+    expect(
+      redactText('{"username":"emilys","password":"x"}', DEFAULT_REDACTED_KEYS)
+    ).toBe('{"username":"emilys","password":"[REDACTED]"}');
+    expect(redactText("password is x", DEFAULT_REDACTED_KEYS)).toBe(
+      "password is x"
+    );
+
+    const logs: unknown[] = [];
+    const log = console.log;
+    console.log = (...args: unknown[]) => logs.push(args);
+    try {
+      const logger = new ApiLogger({ attach: "off" });
+      await logger.record({
+        ...exchange,
+        request: { ...exchange.request, body: "username=emilys&password=x" },
+        response: { ...exchange.response!, status: 401 },
+      });
+      expect(logger.exchanges[0].request.body).toBe(
+        "username=emilys&password=%5BREDACTED%5D"
+      );
+    } finally {
+      console.log = log;
+    }
+    expect(logs).toEqual([]);
+  });
+
+  /** The cURL command reproduces method, URL, headers and body. */
+  test("renders a cURL command", { tag: "@API" }, () => {
+    expect(toCurl(exchange)).toBe(
+      [
+        "curl -X POST 'https://dummyjson.com/auth/login?token=abc&page=1'",
+        "-H 'Content-Type: application/json'",
+        "-H 'Authorization: Bearer secret'",
+        `--data-raw '{"username":"emilys","password":"emilyspass"}'`,
+      ].join(" \\\n  ")
+    );
+  });
+
+  /** With `attach: "all"` recorded exchanges are redacted and attached as they are made. */
+  test("attaches redacted exchanges", { tag: "@API" }, async () => {
+    const logger = new ApiLogger({
+      redact: ["authorization", "password"],
+      attach: "all",
+    });
+    await logger.record(exchange, test.info());
+    const [recorded] = logger.exchanges;
+    expect(recorded.request.headers.Authorization).toBe(REDACTED);
+    expect(recorded.request.body).toEqual({
+      username: "emilys",
+      password: REDACTED,
+    });
+    expect(recorded.response?.body).toEqual(exchange.response?.body);
+    expect(test.info().attachments.map((a) => a.name)).toEqual([
+      "1 POST /auth/login.json",
+      "1 POST /auth/login.curl",
+    ]);
+    expect(ApiLogger.summary(recorded)).toBe(
+      "POST https://dummyjson.com/auth/login?token=abc&page=1 -> 200 OK (42ms)"
+    );
+  });
+
+  /** By default exchanges are attached only once the test has failed. */
+  test("attaches exchanges on failure", { tag: "@API" }, async () => {
+    const logger = new ApiLogger();
+    await logger.record(exchange, test.info());
+    await logger.attachOnFailure(test.info());
+    expect(test.info().attachments).toEqual([]);
+
+    const attached: string[] = [];
+    const failed = {
+      status: "failed",
+      expectedStatus: "passed",
+      attach: async (name: string) => {
+        attached.push(name);
+      },
+    } as unknown as TestInfo;
+    await logger.attachOnFailure(failed);
+    expect(attached).toEqual([
+      "1 POST /auth/login.json",
+      "1 POST /auth/login.curl",
+    ]);
+  });
+});
@@ -1,6 +1,13 @@
 import { test, expect } from "../fixtures/api-fixture";
-import loginData from "../testData/loginUser.json";
-import { LOGIN_API_SCHEMA } from "../schemas/schema";
+import { TokenRefreshError } from "../helpers/authenticated-api-helper";
+import {
+  API_ERROR_SCHEMA,
+  AUTH_USER_SCHEMA,
+  CART_SCHEMA,
+  CARTS_SCHEMA,
+  LOGIN_API_SCHEMA,
+  REFRESH_TOKEN_SCHEMA,
+} from "../schemas/schema";
 
 test.describe.configure({ mode: "serial" });
 
@@ -21,10 +28,10 @@ test.describe.serial("API Testing serialization - Private API", () => {
       // You can access the response data directly
       expect(authenticatedApiHelper.accessToken).toBeDefined();
       expect(authenticatedApiHelper.refreshToken).toBeDefined();
-      console.log("Access Token:", authenticatedApiHelper.accessToken);
       const response = authenticatedApiHelper.response;
-      console.log(response, typeof response);
-      expect(LOGIN_API_SCHEMA.parse(response)).toBeTruthy();
+      expect.soft(response).toHaveStatus(200);
+      expect.soft(response).toHaveHeader("content-type", /application\/json/);
+      expect.soft(response.body).toMatchSchema(LOGIN_API_SCHEMA);
     }
   );
 
@@ -35,13 +42,14 @@ test.describe.serial("API Testing serialization - Private API", () => {
   test(
     "Get current auth user",
     { tag: "@API" },
-    async ({ authenticatedApiHelper }) => {
+    async ({ authenticatedApiHelper, credentials }) => {
       const response = await authenticatedApiHelper.helper.getRequest(
-        "https://dummyjson.com/auth/me",
-        { Authorization: `Bearer ${authenticatedApiHelper.accessToken}` }
+        "/auth/me",
+        undefined,
+        undefined,
+        AUTH_USER_SCHEMA
       );
-      console.log(response);
-      expect(response.username).toEqual(loginData.username);
+      expect(response.body.username).toEqual(credentials.username);
     }
   );
 
@@ -54,27 +62,116 @@ test.describe.serial("API Testing serialization - Private API", () => {
     { tag: "@API" },
     async ({ authenticatedApiHelper }) => {
       const response = await authenticatedApiHelper.helper.postRequest(
-        "https://dummyjson.com/auth/refresh",
-        { "Content-Type": "application/json" },
-        { refreshToken: authenticatedApiHelper.refreshToken }
+        "/auth/refresh",
+        undefined,
+        { refreshToken: authenticatedApiHelper.refreshToken },
+        undefined,
+        REFRESH_TOKEN_SCHEMA
+      );
+      expect(response.body).toHaveProperty("refreshToken");
+      expect(response.body).toHaveProperty("accessToken");
+      expect(response.body.refreshToken).not.toBeNull();
+      expect(response.body.accessToken).not.toBeNull();
+    }
+  );
+
+  /**
+   * Replaces the access token with an invalid one and verifies the helper
+   * refreshes the session and retries the request transparently.
+   */
+  test(
+    "Refresh expired token automatically",
+    { tag: "@API" },
+    async ({ authenticatedApiHelper, credentials }) => {
+      const { refreshToken } = authenticatedApiHelper.tokens;
+      authenticatedApiHelper.helper.tokens = {
+        accessToken: "expired-token",
+        refreshToken,
+      };
+      const response = await authenticatedApiHelper.helper.getRequest(
+        "/auth/me",
+        undefined,
+        undefined,
+        AUTH_USER_SCHEMA
+      );
+      expect(response).toHaveStatus(200);
+      expect(response.body.username).toEqual(credentials.username);
+      expect(authenticatedApiHelper.accessToken).not.toEqual("expired-token");
+    }
+  );
+
+  /**
+   * Sends several requests with an expired access token at once and verifies
+   * they wait for a single refresh instead of reusing the refresh token.
+   */
+  test(
+    "Share one refresh between concurrent requests",
+    { tag: "@API" },
+    async ({ authenticatedApiHelper }) => {
+      const { helper } = authenticatedApiHelper;
+      helper.tokens = { ...helper.tokens, accessToken: "expired-token" };
+      const responses = await Promise.all(
+        [1, 2, 3].map(() => helper.getRequest("/auth/me"))
+      );
+      responses.forEach((response) => expect(response).toHaveStatus(200));
+      const refreshes = helper.logger.exchanges.filter((exchange) =>
+        exchange.request.url.endsWith("/auth/refresh")
       );
-      console.log(response);
-      expect(response).toHaveProperty("refreshToken");
-      expect(response).toHaveProperty("accessToken");
-      expect(response.refreshToken).not.toBeNull();
-      expect(response.accessToken).not.toBeNull();
+      expect(refreshes).toHaveLength(1);
     }
   );
 
   /**
-   * Skipped test intended to verify error handling for a 404 response.
-   * Currently not executed.
+   * Uses an invalid refresh token and verifies the failed refresh is reported
+   * as such, with its status.
+   */
+  test(
+    "Report a rejected token refresh",
+    { tag: "@API" },
+    async ({ authenticatedApiHelper }) => {
+      const { helper } = authenticatedApiHelper;
+      helper.tokens = {
+        accessToken: "expired-token",
+        refreshToken: "invalid-refresh-token",
+      };
+      const error = await helper.getRequest("/auth/me").catch((e) => e);
+      expect(error).toBeInstanceOf(TokenRefreshError);
+      expect(error.message).toMatch(/^Token refresh failed \(status 4\d\d\)/);
+    }
+  );
+
+  /**
+   * Logs in as two users from the roster in `testData/users.json` and checks
+   * that each helper acts as its own identity.
+   */
+  test(
+    "Use multiple identities in one test",
+    { tag: "@API" },
+    async ({ asUser, users }) => {
+      const admin = await asUser("admin");
+      const user = await asUser("user");
+      const [adminMe, userMe] = await Promise.all([
+        admin.getRequest("/auth/me", undefined, undefined, AUTH_USER_SCHEMA),
+        user.getRequest("/auth/me", undefined, undefined, AUTH_USER_SCHEMA),
+      ]);
+      expect(adminMe.body.username).toEqual(users.admin.username);
+      expect(userMe.body.username).toEqual(users.user.username);
+    }
+  );
+
+  /**
+   * Verifies that a 404 response is surfaced through the response envelope
+   * instead of crashing the helper on a non-JSON body.
    */
   test("error API", { tag: "@API" }, async ({ authenticatedApiHelper }) => {
     const response = await authenticatedApiHelper.helper.getRequest(
-      "https://dummyjson.com/http/404/Hello_Peter"
+      "/http/404/Hello_Peter",
+      undefined,
+      undefined,
+      { 404: API_ERROR_SCHEMA }
     );
-    expect(response.status).toBe(404);
+    expect(response).toHaveStatus(404);
+    expect(response.ok).toBe(false);
   });
 });
 
@@ -83,25 +180,35 @@ test.describe.serial("API Testing serialization - Private API", () => {
  * Tests run serially to avoid shared state conflicts.
  */
 test.describe.serial("API Testing 'Carts' in dummyJSON - Public API", () => {
-  /** Retrieves and logs all carts. */
+  /** Retrieves all carts and validates them against `CARTS_SCHEMA`. */
   test("Get all carts", { tag: "@API" }, async ({ apiHelper }) => {
-    const response = await apiHelper.getRequest("https://dummyjson.com/carts");
-    console.log(response);
+    const response = await apiHelper.getRequest(
+      "/carts",
+      undefined,
+      undefined,
+      CARTS_SCHEMA
+    );
+    expect(response).toHaveStatus(200);
   });
 
-  /** Retrieves and logs a single cart by ID. */
+  /** Retrieves a single cart by ID and validates it against `CART_SCHEMA`. */
   test("Get a single cart", { tag: "@API" }, async ({ apiHelper }) => {
     const response = await apiHelper.getRequest(
-      "https://dummyjson.com/carts/1"
+      "/carts/1",
+      undefined,
+      undefined,
+      CART_SCHEMA
     );
-    console.log(response);
+    expect(response).toHaveStatus(200);
+    expect(response.body.id).toBe(1);
   });
 
-  /** Retrieves and logs all carts belonging to a specific user. */
-  test("Get carts by a user", { tag: "@API" }, async ({ apiHelper }) => {
-    const response = await apiHelper.getRequest(
-      "https://dummyjson.com/carts/user/11"
-    );
-    console.log(response);
+  /** Retrieves all carts belonging to a specific user through the typed client. */
+  test("Get carts by a user", { tag: "@API" }, async ({ api }) => {
+    const response = await api.carts.byUser({ userId: 11 });
+    expect(response).toHaveStatus(200);
+    for (const cart of response.body.carts) {
+      expect(cart.userId).toBe(11);
+    }
   });
 });
@@ -0,0 +1,74 @@
+import { test, expect } from "../fixtures/api-fixture";
+import { browserStorageState, StorageState } from "../helpers/browser-session";
+
+test.use({ useMockServer: true, loginAs: "admin" });
+
+const LOGIN = {
+  accessToken: "access-1",
+  refreshToken: "refresh-1",
+  id: 1,
+  username: "emilys",
+};
+
+/**
+ * Suite for turning API logins into browser storage states.
+ */
+test.describe("Browser sessions", () => {
+  /** Configured fields become cookies and localStorage entries. */
+  test(
+    "maps a login response to a storage state",
+    { tag: "@API" },
+    async () => {
+      const state = browserStorageState(LOGIN, {
+        baseURL: "https://shop.example.com/app",
+        cookieDomain: ".example.com",
+        cookies: { session: "accessToken" },
+        localStorage: { token: "refreshToken", user: "username", id: "id" },
+      });
+      expect(state.cookies).toEqual([
+        expect.objectContaining({
+          name: "session",
+          value: "access-1",
+          domain: ".example.com",
+          path: "/",
+          secure: true,
+        }),
+      ]);
+      expect(state.origins).toEqual([
+        {
+          origin: "https://shop.example.com",
+          localStorage: [
+            { name: "token", value: "refresh-1" },
+            { name: "user", value: "emilys" },
+            { name: "id", value: "1" },
+          ],
+        },
+      ]);
+
+      expect(() =>
+        browserStorageState(LOGIN, {
+          baseURL: "http://127.0.0.1:3000",
+          cookies: { token: "jwt" },
+          localStorage: {},
+        })
+      ).toThrow("Login response has no jwt for the browser session");
+    }
+  );
+
+  /** `loginAs` logs the roster user in through the API before the page opens. */
+  test(
+    "seeds the storage state from an API login",
+    { tag: "@API" },
+    async ({ storageState, environment, baseURL }) => {
+      expect(baseURL).toBe(environment.ui.baseURL);
+      const { cookies } = storageState as StorageState;
+      expect(
+        Object.fromEntries(cookies.map((cookie) => [cookie.name, cookie.value]))
+      ).toEqual({
+        accessToken: expect.stringMatching(/^mock-access-emilys-/),
+        refreshToken: expect.stringMatching(/^mock-refresh-emilys-/),
+      });
+      expect(cookies[0].domain).toBe(new URL(environment.ui.baseURL).hostname);
+    }
+  );
+});
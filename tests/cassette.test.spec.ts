@@ -0,0 +1,169 @@
+import fs from "fs";
+import path from "path";
+import { test, expect } from "../fixtures/api-fixture";
+import { ApiHelper } from "../helpers/api-helper";
+import { AuthenticatedApiHelper } from "../helpers/authenticated-api-helper";
+import {
+  CassetteFile,
+  CassetteMismatchError,
+  cassettePath,
+} from "../helpers/cassette";
+import { CART_SCHEMA } from "../schemas/schema";
+
+test.use({ useMockServer: true });
+
+/**
+ * Suite for recording exchanges to a cassette and replaying them.
+ */
+test.describe("Cassettes", () => {
+  /** A recorded exchange is replayed without reaching the server. */
+  test(
+    "records and replays exchanges",
+    { tag: "@API" },
+    async ({ environment, mockServer }, testInfo) => {
+      const file = testInfo.outputPath("cassette.json");
+      const recorder = new ApiHelper({
+        baseURL: environment.apiBaseURL,
+        cassette: { mode: "record", file },
+      });
+      const recorded = await recorder.getRequest("/carts/1");
+      await recorder.postRequest("/auth/login", undefined, {
+        username: "emilys",
+        password: "emilyspass",
+      });
+      await recorder.dispose();
+
+      const replayer = new ApiHelper({
+        baseURL: environment.apiBaseURL,
+        cassette: { mode: "replay", file },
+      });
+      mockServer.requests.length = 0;
+      const replayed = await replayer.getRequest(
+        "/carts/1",
+        undefined,
+        undefined,
+        CART_SCHEMA
+      );
+      expect(replayed).toHaveStatus(200);
+      expect(replayed.body).toEqual(recorded.body);
+      expect(mockServer.requests).toHaveLength(0);
+      await replayer.dispose();
+    }
+  );
+
+  /** Secrets never reach the cassette file. */
+  test(
+    "scrubs secrets before writing",
+    { tag: "@API" },
+    async ({ environment }, testInfo) => {
+      const file = testInfo.outputPath("cassette.json");
+      const recorder = new ApiHelper({
+        baseURL: environment.apiBaseURL,
+        cassette: { mode: "record", file },
+      });
+      await recorder.postRequest("/auth/login", undefined, {
+        username: "emilys",
+        password: "emilyspass",
+      });
+      await recorder.dispose();
+
+      const contents = fs.readFileSync(file, "utf-8");
+      expect(contents).not.toContain("emilyspass");
+      expect(contents).not.toContain("mock-access-");
+      const cassette: CassetteFile = JSON.parse(contents);
+      expect(cassette.interactions[0].response.body).toMatchObject({
+        username: "emilys",
+        accessToken: "[REDACTED]",
+      });
+    }
+  );
+
+  /** Unmatched requests fail with the list of recorded requests. */
+  test(
+    "fails clearly on unmatched requests",
+    { tag: "@API" },
+    async ({ environment }, testInfo) => {
+      const file = testInfo.outputPath("cassette.json");
+      const recorder = new ApiHelper({
+        baseURL: environment.apiBaseURL,
+        cassette: { mode: "record", file },
+      });
+      await recorder.getRequest("/carts", undefined, { limit: 2 });
+      await recorder.dispose();
+
+      const replayer = new ApiHelper({
+        baseURL: environment.apiBaseURL,
+        cassette: { mode: "replay", file },
+      });
+      const unmatched = replayer.getRequest("/carts", undefined, { limit: 3 });
+      await expect(unmatched).rejects.toBeInstanceOf(CassetteMismatchError);
+      await expect(
+        replayer.getRequest("/carts", undefined, { limit: 3 })
+      ).rejects.toThrow(/Recorded requests:\n {2}- GET .*\/carts\?limit=2/);
+
+      const ignoringQuery = new ApiHelper({
+        baseURL: environment.apiBaseURL,
+        cassette: { mode: "replay", file, match: { query: false } },
+      });
+      const response = await ignoringQuery.getRequest("/carts", undefined, {
+        limit: 3,
+      });
+      expect(response.body.carts).toHaveLength(2);
+    }
+  );
+
+  /**
+   * Every test records its own login, even when the worker already has a
+   * cached session, so any single test replays on its own.
+   */
+  test.describe.serial("with logged-in fixtures", () => {
+    const dir = (testInfo: { project: { outputDir: string } }) =>
+      path.join(testInfo.project.outputDir, "session-cassettes");
+    let secondCassette: string;
+
+    test.use({
+      apiHelperOptions: async ({}, use, testInfo) => {
+        await use({ cassette: { mode: "record", dir: dir(testInfo) } });
+      },
+    });
+
+    test("first test", { tag: "@API" }, async ({ authenticatedApiHelper }) => {
+      await authenticatedApiHelper.helper.getRequest("/auth/me");
+    });
+
+    test(
+      "second test",
+      { tag: "@API" },
+      async ({ authenticatedApiHelper }, testInfo) => {
+        await authenticatedApiHelper.helper.getRequest("/auth/me");
+        secondCassette = cassettePath(testInfo, dir(testInfo));
+      }
+    );
+
+    test(
+      "replays the second test in isolation",
+      { tag: "@API" },
+      async ({ environment, credentials, mockServer }) => {
+        const cassette: CassetteFile = JSON.parse(
+          fs.readFileSync(secondCassette, "utf-8")
+        );
+        expect(
+          cassette.interactions.map(
+            ({ request }) =>
+              `${request.method} ${new URL(request.url).pathname}`
+          )
+        ).toEqual(["POST /auth/login", "GET /auth/me"]);
+
+        const replayer = new AuthenticatedApiHelper({
+          baseURL: environment.apiBaseURL,
+          cassette: { mode: "replay", file: secondCassette },
+        });
+        await replayer.login(credentials);
+        const me = await replayer.getRequest("/auth/me");
+        expect(me.body).toMatchObject({ username: credentials.username });
+        expect(mockServer.requests).toHaveLength(0);
+        await replayer.dispose();
+      }
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { test, expect } from "../fixtures/api-fixture";
+import {
+  dataCases,
+  DataFileError,
+  loadDataRows,
+  parseCsv,
+} from "../helpers/data-driven";
+import {
+  API_ERROR_SCHEMA,
+  LOGIN_API_SCHEMA,
+  LOGIN_CASE_SCHEMA,
+} from "../schemas/schema";
+
+const RESPONSE_SCHEMAS = { LOGIN_API_SCHEMA, API_ERROR_SCHEMA };
+
+/**
+ * One test per row of `testData/loginCases.csv`: each login attempt is sent
+ * as-is and its status and response schema are checked.
+ */
+test.describe("Data-driven login", () => {
+  const cases = dataCases({
+    file: "testData/loginCases.csv",
+    schema: LOGIN_CASE_SCHEMA,
+    title: "login with {name}",
+    tag: "@API",
+  });
+  for (const { title, details, row } of cases) {
+    test(title, details, async ({ apiHelper }) => {
+      const { username, password, expectedStatus, responseSchema, message } =
+        row;
+      const response = await apiHelper.postRequest(
+        "/auth/login",
+        undefined,
+        { username, password },
+        undefined,
+        { 200: LOGIN_API_SCHEMA, "4xx": API_ERROR_SCHEMA }
+      );
+      expect(response).toHaveStatus(expectedStatus);
+      expect(response.body).toMatchSchema(RESPONSE_SCHEMAS[responseSchema]);
+      if (message) {
+        expect(response.body).toMatchObject({ message });
+      }
+    });
+  }
+});
+
+/** Suite for reading and validating data files. These run offline. */
+test.describe("Data files", () => {
+  /** Quoted fields, escaped quotes and empty cells are handled. */
+  test("parses CSV rows", { tag: "@API" }, async () => {
+    const rows = parseCsv(
+      'name,note,count\r\nfirst,"a, b",1\nsecond,"say ""hi""",\n\n'
+    );
+    expect(rows).toEqual([
+      { name: "first", note: "a, b", count: "1" },
+      { name: "second", note: 'say "hi"' },
+    ]);
+  });
+
+  /** Rows are validated against the schema and every bad row is reported. */
+  test("reports invalid rows", { tag: "@API" }, async () => {
+    expect(
+      loadDataRows("testData/loginCases.csv", LOGIN_CASE_SCHEMA)
+    ).toHaveLength(6);
+
+    const strictSchema = LOGIN_CASE_SCHEMA.extend({
+      username: z.string().min(1),
+    });
+    let error: unknown;
+    try {
+      loadDataRows("testData/loginCases.csv", strictSchema);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(DataFileError);
+    expect((error as DataFileError).problems).toHaveLength(1);
+    expect((error as DataFileError).message).toContain("row 6:");
+  });
+});
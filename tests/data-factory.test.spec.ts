@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { test, expect } from "../fixtures/api-fixture";
+import { createFactory, invalidVariants } from "../helpers/data-factory";
+import {
+  ADD_CART_SCHEMA,
+  LOGIN_CREDENTIALS_SCHEMA,
+  UPDATE_CART_SCHEMA,
+} from "../schemas/schema";
+
+test.use({ useMockServer: true });
+
+const PROFILE_SCHEMA = z
+  .object({
+    email: z.string().email(),
+    website: z.string().url(),
+    nickname: z.string().min(3).max(8),
+    gender: z.enum(["male", "female"]),
+    age: z.number().int().min(18).max(99),
+    tags: z.array(z.string()).min(2),
+    bio: z.string().optional(),
+  })
+  .strict();
+
+/**
+ * Suite for the schema-driven data factories. These run without network
+ * access; the cart tests send generated payloads to the mock server.
+ */
+test.describe("Data factories", () => {
+  /** The same seed always yields the same payloads. */
+  test("is reproducible for a given seed", { tag: "@API" }, async () => {
+    const first = createFactory(PROFILE_SCHEMA, { seed: 42 }).buildMany(3);
+    const second = createFactory(PROFILE_SCHEMA, { seed: 42 }).buildMany(3);
+    expect(first).toEqual(second);
+    expect(createFactory(PROFILE_SCHEMA, { seed: 7 }).build()).not.toEqual(
+      first[0]
+    );
+  });
+
+  /** Formats, enums, lengths and ranges of the schema are respected. */
+  test("generates values the schema accepts", { tag: "@API" }, async () => {
+    const factory = createFactory(PROFILE_SCHEMA, { seed: 1 });
+    for (const profile of factory.buildMany(25)) {
+      expect(profile).toMatchSchema(PROFILE_SCHEMA);
+    }
+    expect(createFactory(ADD_CART_SCHEMA).build()).toMatchSchema(
+      ADD_CART_SCHEMA
+    );
+  });
+
+  /** Overrides are deep-merged and still validated against the schema. */
+  test("applies per-field overrides", { tag: "@API" }, async () => {
+    const factory = createFactory(ADD_CART_SCHEMA, {
+      seed: 3,
+      defaults: { userId: 5 },
+    });
+    expect(factory.build()).toMatchObject({ userId: 5 });
+    expect(
+      factory.build({ products: [{ id: 1, quantity: 2 }] }).products
+    ).toEqual([{ id: 1, quantity: 2 }]);
+    expect(() => factory.build({ userId: -1 })).toThrow(/schema rejects/);
+  });
+
+  /** Every variant names what is broken and is rejected by the schema. */
+  test("derives invalid variants", { tag: "@API" }, async () => {
+    const variants = invalidVariants(LOGIN_CREDENTIALS_SCHEMA, {
+      username: "emilys",
+      password: "emilyspass",
+    });
+    expect(variants.map((v) => `${v.kind} ${v.path}`)).toEqual([
+      "missing-field username",
+      "wrong-type username",
+      "out-of-range username",
+      "missing-field password",
+      "wrong-type password",
+      "out-of-range password",
+    ]);
+
+    const kinds = new Set(
+      createFactory(PROFILE_SCHEMA, { seed: 9 })
+        .invalid()
+        .map((v) => v.kind)
+    );
+    expect([...kinds].sort()).toEqual([
+      "extra-key",
+      "invalid-enum",
+      "invalid-format",
+      "missing-field",
+      "out-of-range",
+      "wrong-type",
+    ]);
+  });
+});
+
+/** Generated and deliberately invalid cart payloads sent to the mock server. */
+test.describe("Cart payload validation", () => {
+  /** Generated carts are accepted by POST /carts/add. */
+  test("adds generated carts", { tag: "@API" }, async ({ api, factory }) => {
+    const cart = factory(ADD_CART_SCHEMA).build({ userId: 1 });
+    const response = await api.carts.add({ body: cart });
+    expect(response).toHaveStatus(201);
+    expect(response.body).toMatchObject({
+      userId: 1,
+      totalProducts: cart.products.length,
+    });
+  });
+
+  /**
+   * Each invalid variant of an add or update payload is answered with a 400
+   * naming the broken field. The mock checks carts by hand, not with the
+   * schemas the variants are generated from.
+   */
+  test(
+    "rejects invalid cart payloads",
+    { tag: "@API" },
+    async ({ apiHelper, factory }) => {
+      const requests = [
+        { method: "POST", url: "/carts/add", schema: ADD_CART_SCHEMA },
+        { method: "PUT", url: "/carts/1", schema: UPDATE_CART_SCHEMA },
+      ] as const;
+      for (const { method, url, schema } of requests) {
+        for (const variant of factory(schema).invalid()) {
+          await test.step(`${method} ${url}: ${variant.description}`, async () => {
+            const response = await apiHelper.makeRequest(
+              method,
+              url,
+              undefined,
+              variant.value
+            );
+            expect(response).toHaveStatus(400);
+            expect(response.body.message).toContain(variant.path);
+          });
+        }
+      }
+    }
+  );
+});
@@ -0,0 +1,47 @@
+import { test, expect } from "../fixtures/api-fixture";
+import { buildPath } from "../helpers/endpoint-client";
+import { RequestValidationError } from "../helpers/schema-validation";
+
+/**
+ * Suite for the typed endpoint client. Invalid input is rejected before any
+ * request is sent, so these run without network access.
+ */
+test.describe("Endpoint client", () => {
+  /** Path templates are filled with URL-encoded parameters. */
+  test("builds paths from templates", { tag: "@API" }, () => {
+    expect(buildPath("/carts/user/:userId", { userId: 11 })).toBe(
+      "/carts/user/11"
+    );
+    expect(
+      buildPath("/search/:term/page/:page", { term: "a b", page: 2 })
+    ).toBe("/search/a%20b/page/2");
+    expect(() => buildPath("/carts/:cartId", {})).toThrow(
+      'Missing path parameter "cartId"'
+    );
+  });
+
+  /** An invalid body fails locally with the offending field paths. */
+  test(
+    "validates request bodies before sending",
+    { tag: "@API" },
+    async ({ api }) => {
+      const request = api.carts.add({
+        body: { userId: 1, products: [{ id: 1, quantity: 0 }] },
+      });
+      await expect(request).rejects.toBeInstanceOf(RequestValidationError);
+      await expect(request).rejects.toThrow(
+        /Request body validation failed for POST \/carts\/add[\s\S]*products\[0\]\.quantity/
+      );
+    }
+  );
+
+  /** Path params and query objects are validated as well. */
+  test("validates path params and query", { tag: "@API" }, async ({ api }) => {
+    await expect(api.carts.byId({ cartId: -1 })).rejects.toThrow(
+      /Request path params validation failed for GET \/carts\/:cartId[\s\S]*cartId/
+    );
+    await expect(api.carts.all({ query: { limit: -5 } })).rejects.toThrow(
+      /Request query validation failed[\s\S]*limit/
+    );
+  });
+});
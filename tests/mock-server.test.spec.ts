@@ -0,0 +1,99 @@
+import { test, expect } from "../fixtures/api-fixture";
+import { CONTRACT_VIOLATION_ANNOTATION } from "../helpers/openapi-contract";
+
+test.use({ useMockServer: true });
+
+/**
+ * Suite for the local mock server that stands in for dummyjson: its built-in
+ * routes, the failures tests inject and the requests it records.
+ */
+test.describe("Mock server", () => {
+  /** Built-in routes answer like dummyjson and record what they receive. */
+  test(
+    "serves the default dummyjson routes",
+    { tag: "@API" },
+    async ({ api, mockServer }) => {
+      const cart = await api.carts.byId({ cartId: 1 });
+      expect(cart.body).toMatchObject({ id: 1, userId: 33 });
+      expect(mockServer.requests.map((r) => r.path)).toEqual(["/carts/1"]);
+
+      const missing = await api.carts.byId({ cartId: 999 });
+      expect(missing).toHaveStatus(404);
+    }
+  );
+
+  /** Tests that do not take `mockServer` leave no requests behind. */
+  test(
+    "records requests only for the mockServer fixture",
+    { tag: "@API" },
+    async ({ api, mockApiServer }) => {
+      await api.carts.byId({ cartId: 1 });
+      expect(mockApiServer!.requests).toEqual([]);
+    }
+  );
+
+  /** Test routes take precedence, so failures can be injected on demand. */
+  test(
+    "injects errors and latency",
+    { tag: "@API" },
+    async ({ apiHelper, mockServer }) => {
+      mockServer.on("GET", "/carts/:cartId", { status: 503 }, { times: 1 });
+      const response = await apiHelper.makeRequest(
+        "GET",
+        "/carts/2",
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { retry: { maxAttempts: 2, baseDelayMs: 1, jitter: false } }
+      );
+      expect(response).toHaveStatus(200);
+      expect(response.attempts.map((a) => a.status)).toEqual([503, 200]);
+
+      mockServer.on("GET", "/carts", {
+        body: { carts: [], total: 0, skip: 0, limit: 0 },
+        delayMs: 50,
+      });
+      const slow = await apiHelper.getRequest("/carts");
+      expect(slow.elapsedMs).toBeGreaterThanOrEqual(50);
+    }
+  );
+
+  /**
+   * A status the OpenAPI contract does not declare is recorded as a
+   * violation; the response is still returned.
+   */
+  test(
+    "records contract violations without throwing",
+    { tag: "@API" },
+    async ({ apiHelper, mockServer }) => {
+      mockServer.on("GET", "/carts/:cartId", {
+        status: 500,
+        body: { message: "boom" },
+      });
+      const response = await apiHelper.getRequest("/carts/2");
+      expect(response).toMatchObject({
+        status: 500,
+        body: { message: "boom" },
+      });
+      const violations = test
+        .info()
+        .annotations.filter((a) => a.type === CONTRACT_VIOLATION_ANNOTATION);
+      expect(violations.map((a) => a.description)).toEqual([
+        expect.stringMatching(
+          /^No response schema declared for status 500 of GET .*\/carts\/2$/
+        ),
+      ]);
+    }
+  );
+
+  /** A `networkError` response drops the connection. */
+  test(
+    "simulates network failures",
+    { tag: "@API" },
+    async ({ apiHelper, mockServer }) => {
+      mockServer.on("GET", "/carts", { networkError: true });
+      await expect(apiHelper.getRequest("/carts")).rejects.toThrow();
+    }
+  );
+});
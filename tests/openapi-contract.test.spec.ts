@@ -0,0 +1,148 @@
+import path from "path";
+import { test, expect } from "../fixtures/api-fixture";
+import { ApiResponse } from "../helpers/api-helper";
+import { createEndpointClient } from "../helpers/endpoint-client";
+import {
+  contractCoverage,
+  coverageKey,
+  formatCoverage,
+  OpenApiContract,
+  OpenApiDocument,
+} from "../helpers/openapi-contract";
+import { SchemaValidationError } from "../helpers/schema-validation";
+
+const SPEC = path.resolve(__dirname, "../openapi/dummyjson.openapi.json");
+
+function response(
+  method: string,
+  url: string,
+  status: number,
+  body: unknown
+): ApiResponse {
+  return {
+    ok: status < 400,
+    status,
+    statusText: "",
+    headers: {},
+    body,
+    rawBody: Buffer.from(JSON.stringify(body)),
+    elapsedMs: 0,
+    url,
+    method,
+    attempts: [],
+  };
+}
+
+/**
+ * Suite for turning an OpenAPI document into Zod schemas and validating
+ * responses against it.
+ */
+test.describe("OpenAPI contract", () => {
+  /** Component schemas convert to Zod, including refs, allOf and nullable. */
+  test("converts component schemas", { tag: "@API" }, () => {
+    const document: OpenApiDocument = {
+      openapi: "3.0.3",
+      info: { title: "test", version: "1" },
+      paths: {},
+      components: {
+        schemas: {
+          Id: { type: "integer", minimum: 1 },
+          Node: {
+            type: "object",
+            additionalProperties: false,
+            required: ["id"],
+            properties: {
+              id: { $ref: "#/components/schemas/Id" },
+              label: { type: "string", nullable: true },
+              kind: { type: "string", enum: ["a", "b"] },
+              children: {
+                type: "array",
+                items: { $ref: "#/components/schemas/Node" },
+              },
+            },
+          },
+        },
+      },
+    };
+    const { Node } = new OpenApiContract(document).schemas;
+    expect({
+      id: 1,
+      label: null,
+      children: [{ id: 2, kind: "a" }],
+    }).toMatchSchema(Node);
+    expect({ id: 0 }).not.toMatchSchema(Node);
+    expect({ id: 1, kind: "c" }).not.toMatchSchema(Node);
+    expect({ id: 1, extra: true }).not.toMatchSchema(Node);
+  });
+
+  /** Responses are matched to operations by origin, method and path template. */
+  test("validates responses per operation and status", { tag: "@API" }, () => {
+    const contract = OpenApiContract.load(SPEC);
+    expect(
+      contract.find({ method: "GET", url: "https://dummyjson.com/carts/7" })?.id
+    ).toBe("getCart");
+    expect(
+      contract.find({
+        method: "GET",
+        url: "https://dummyjson.com/carts/user/7",
+      })?.id
+    ).toBe("getUserCarts");
+    expect(
+      contract.find({ method: "GET", url: "https://dummyjson.com/http/404/x" })
+    ).toBeUndefined();
+    expect(
+      contract.find({ method: "GET", url: "https://cdn.example/carts/7" })
+    ).toBeUndefined();
+    const local = OpenApiContract.load(SPEC, "http://127.0.0.1:3000/api");
+    expect(
+      local.find({ method: "GET", url: "http://127.0.0.1:3000/api/carts/7" })
+        ?.id
+    ).toBe("getCart");
+    expect(
+      local.find({ method: "GET", url: "https://dummyjson.com/carts/7" })
+    ).toBeUndefined();
+
+    const notFound = response("GET", "https://dummyjson.com/carts/99", 404, {
+      message: "Cart with id '99' not found",
+    });
+    expect(contract.verify(notFound)?.id).toBe("getCart");
+    expect(() =>
+      contract.verify(
+        response("GET", "https://dummyjson.com/carts/1", 200, { id: 1 })
+      )
+    ).toThrow(SchemaValidationError);
+    expect(() =>
+      contract.verify(response("GET", "https://dummyjson.com/carts/1", 500, {}))
+    ).toThrow(/No response schema declared for status 500/);
+  });
+
+  /** The coverage summary lists every response never exercised. */
+  test("reports contract coverage", { tag: "@API" }, () => {
+    const contract = OpenApiContract.load(SPEC);
+    const getCart = contract.operations.find((o) => o.id === "getCart")!;
+    const coverage = contractCoverage(contract, [coverageKey(getCart, "200")]);
+    expect(coverage.exercised).toBe(1);
+    const report = formatCoverage(coverage);
+    expect(report).toContain(
+      `OpenAPI contract coverage: 1/${coverage.total} responses exercised`
+    );
+    expect(report).toContain("  - getCart (GET /carts/{cartId}) 404");
+    expect(report).not.toContain("getCart (GET /carts/{cartId}) 200");
+  });
+
+  /** Operations become endpoints for the typed client. */
+  test(
+    "builds endpoints from operations",
+    { tag: "@API" },
+    async ({ apiHelper }) => {
+      const contract = OpenApiContract.load(SPEC);
+      const client = createEndpointClient(apiHelper, contract.endpoints());
+      await expect(client.getCart({ cartId: 0 })).rejects.toThrow(
+        /path params/
+      );
+      await expect(
+        client.addCart({ body: { userId: 1, products: [] } })
+      ).rejects.toThrow(/products: Array must contain at least 1/);
+    }
+  );
+});
@@ -0,0 +1,131 @@
+import { test, expect } from "../fixtures/api-fixture";
+import { CART_SCHEMA, LOGIN_API_SCHEMA } from "../schemas/schema";
+import { SchemaValidationError } from "../helpers/schema-validation";
+
+// `.invalid` never resolves, so nothing leaves the browser unrouted.
+test.use({ useMockServer: true, baseURL: "https://shop.invalid" });
+
+/** A page that loads a cart and the profile as soon as it opens. */
+const SHOP_PAGE = {
+  headers: { "content-type": "text/html" },
+  body: `<main id="cart"></main>
+<script>
+  fetch("/carts/1").then((r) => r.json()).then((cart) => {
+    document.getElementById("cart").textContent = cart.total;
+  });
+  fetch("/auth/me");
+</script>`,
+};
+
+/**
+ * Suite for answering browser requests with mock routes and capturing the
+ * responses a page consumes.
+ */
+test.describe("Page network", () => {
+  /** Page stubs win over the worker's routes, whenever they are added. */
+  test(
+    "answers page requests with stubs and mock routes",
+    { tag: "@UI" },
+    async ({ uiPage, page, mockServer, baseURL }) => {
+      uiPage.network.stub("GET", "/auth/me", {
+        status: 401,
+        body: { message: "Expired" },
+      });
+      await uiPage.routeApi(baseURL!, mockServer);
+      await uiPage.stubRoute("GET", "/", SHOP_PAGE);
+
+      const { cart, user } = await uiPage.captureResponses(page.goto("/"), {
+        cart: { url: "/carts/1", method: "GET", schema: CART_SCHEMA },
+        user: { url: "/auth/me", status: "4xx" },
+      });
+      expect(cart.body).toMatchObject({ id: 1, userId: 33 });
+      expect(user).toMatchObject({ status: 401, body: { message: "Expired" } });
+      expect(mockServer.requests.map((r) => r.path)).toEqual(["/carts/1"]);
+      expect(uiPage.network.captured.map((c) => c.name).sort()).toEqual([
+        "cart",
+        "user",
+      ]);
+    }
+  );
+
+  /** Method and body predicates pick one of several matching responses. */
+  test(
+    "filters captures by method, status and body",
+    { tag: "@UI" },
+    async ({ uiPage, page, mockServer, baseURL }) => {
+      await uiPage.routeApi(baseURL!, mockServer);
+      await uiPage.stubRoute("GET", "/", { body: "<main></main>" });
+      await page.goto("/");
+
+      const send = () =>
+        page.evaluate(async () => {
+          await fetch("/carts/2");
+          await fetch("/carts/999");
+          await fetch("/carts/add", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({
+              userId: 5,
+              products: [{ id: 1, quantity: 2 }],
+            }),
+          });
+        });
+      const captured = await uiPage.captureResponses(send, {
+        added: { url: "/carts", method: "POST", status: 201 },
+        missing: { url: "/carts/", status: 404 },
+        second: { url: "/carts/", body: (cart) => cart.id === 2 },
+      });
+      expect(captured.added.requestBody).toMatchObject({ userId: 5 });
+      expect(captured.added.body).toMatchObject({
+        userId: 5,
+        totalQuantity: 2,
+      });
+      expect(captured.missing.url).toMatch(/\/carts\/999$/);
+      expect(captured.second.method).toBe("GET");
+    }
+  );
+
+  /** A captured body that violates the capture's schema fails the step. */
+  test(
+    "validates captured bodies",
+    { tag: "@UI" },
+    async ({ uiPage, page, mockServer, baseURL }) => {
+      await uiPage.routeApi(baseURL!, mockServer);
+      await uiPage.stubRoute("GET", "/", SHOP_PAGE);
+
+      const error = await uiPage
+        .captureResponses(page.goto("/"), {
+          cart: { url: "/carts/1", schema: LOGIN_API_SCHEMA },
+        })
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect(error.message).toContain("accessToken: Required");
+    }
+  );
+
+  /** `clear` only undoes what this page set up. */
+  test(
+    "clears only this page's routes",
+    { tag: "@UI" },
+    async ({ uiPage, page, mockServer, baseURL }) => {
+      await page.route("**/health", (route) => route.fulfill({ body: "ok" }));
+      mockServer.on("GET", "/carts/:cartId", { status: 503 });
+      await uiPage.routeApi(baseURL!, mockServer);
+      await uiPage.stubRoute("GET", "/", SHOP_PAGE);
+      await uiPage.captureResponses(page.goto("/"), {
+        cart: { url: "/carts/1", status: 503 },
+      });
+
+      await uiPage.clearNetworkLogs();
+      expect(uiPage.network.captured).toEqual([]);
+      expect(mockServer.handles("GET", "/carts/1")).toBe(true);
+      const health = await page.evaluate(() =>
+        fetch("/health").then((r) => r.text())
+      );
+      expect(health).toBe("ok");
+      await expect(
+        page.evaluate(() => fetch("/carts/1").then((r) => r.status))
+      ).rejects.toThrow();
+    }
+  );
+});
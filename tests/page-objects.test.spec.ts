@@ -0,0 +1,111 @@
+import { Page } from "@playwright/test";
+import { expect, withPageObjects } from "../fixtures/api-fixture";
+import { PageNetworkOptions } from "../helpers/page-network";
+import {
+  bindElements,
+  Component,
+  ElementMap,
+  locate,
+  PageObject,
+} from "../helpers/page-objects";
+
+const CART_HTML = `
+<h1>Cart</h1>
+<table>
+  <tr data-testid="cart-row">
+    <td class="title">Lamp</td><td data-testid="qty">1</td>
+    <td><button onclick="this.closest('tr').remove()">Remove</button></td>
+  </tr>
+  <tr data-testid="cart-row">
+    <td class="title">Desk</td><td data-testid="qty">2</td>
+    <td><button onclick="this.closest('tr').remove()">Remove</button></td>
+  </tr>
+</table>
+<label>Coupon code <input name="coupon" placeholder="SAVE10"></label>
+<button onclick="document.getElementById('status').textContent =
+  'Applied ' + document.querySelector('[name=coupon]').value">Apply</button>
+<p id="status"></p>
+<button>Checkout</button>`;
+
+const CART = {
+  heading: { role: "heading", name: "Cart" },
+  rows: { testId: "cart-row" },
+  coupon: { label: "Coupon code" },
+  apply: { role: "button", name: "Apply" },
+  status: "#status",
+  checkout: (root) => root.getByText("Checkout"),
+} satisfies ElementMap;
+
+const ROW = {
+  title: ".title",
+  quantity: { testId: "qty" },
+  remove: { role: "button", name: "Remove" },
+} satisfies ElementMap;
+
+class CartPage extends PageObject<typeof CART> {
+  readonly path = "/cart";
+
+  constructor(page: Page, options?: PageNetworkOptions) {
+    super(page, CART, options);
+  }
+
+  row(index: number) {
+    return this.component(CART.rows, ROW).nth(index);
+  }
+
+  async applyCoupon(code: string) {
+    await this.elements.coupon.fill(code);
+    await this.clickOnElement(this.elements.apply);
+  }
+}
+
+const test = withPageObjects({ cartPage: CartPage });
+
+/**
+ * Suite for typed page objects, components and their fixtures.
+ * These render static HTML with `page.setContent`, without network access.
+ */
+test.describe("Page objects", () => {
+  /** Every kind of element query resolves to a locator on its root. */
+  test("locates elements", { tag: "@UI" }, async ({ page }) => {
+    await page.setContent(CART_HTML);
+    const elements = bindElements(page, CART);
+    await expect(elements.heading).toHaveText("Cart");
+    await expect(elements.rows).toHaveCount(2);
+    await expect(elements.coupon).toHaveAttribute("placeholder", "SAVE10");
+    await expect(elements.checkout).toHaveText("Checkout");
+    await expect(locate(page, { placeholder: "SAVE10" })).toBeEditable();
+    await expect(locate(page, { text: "Desk" })).toHaveClass("title");
+  });
+
+  /** Component elements are looked up inside their own root only. */
+  test("scopes components to their root", { tag: "@UI" }, async ({ page }) => {
+    await page.setContent(CART_HTML);
+    const rows = new Component(page.getByTestId("cart-row"), ROW);
+    const desk = rows.nth(1);
+    await expect(desk.elements.title).toHaveText("Desk");
+    await expect(desk.elements.quantity).toHaveText("2");
+
+    await rows.nth(0).elements.remove.click();
+    await expect(rows.root).toHaveCount(1);
+    await expect(rows.nth(0).elements.title).toHaveText("Desk");
+  });
+
+  /** `withPageObjects` builds the page object for the test's page. */
+  test(
+    "registers page objects as fixtures",
+    { tag: "@UI" },
+    async ({ cartPage, page }) => {
+      expect(cartPage).toBeInstanceOf(CartPage);
+      expect(cartPage.page).toBe(page);
+      await page.setContent(CART_HTML);
+
+      await cartPage.applyCoupon("SAVE10");
+      await cartPage.expectText(cartPage.elements.status, "Applied SAVE10");
+      await cartPage.expectCountGreaterThan(cartPage.elements.rows, 1);
+      await expect(cartPage.row(1).elements.quantity).toHaveText("2");
+      // @ts-expect-error Elements that were not declared do not compile.
+      expect(cartPage.elements.total).toBeUndefined();
+    }
+  );
+});
@@ -0,0 +1,154 @@
+import { Route } from "@playwright/test";
+import { test, expect } from "../fixtures/api-fixture";
+import { waitUntil, WaitTimeoutError } from "../helpers/page-waits";
+import { CART_SCHEMA } from "../schemas/schema";
+
+// `.invalid` never resolves, so nothing leaves the browser unrouted.
+test.use({ useMockServer: true, baseURL: "https://shop.invalid" });
+
+/**
+ * Suite for condition-based waiting with `waitUntil`, outside the browser.
+ */
+test.describe("Waits", () => {
+  /** The first truthy result is returned as soon as it appears. */
+  test("resolves once the condition holds", { tag: "@API" }, async () => {
+    let polls = 0;
+    const startedAt = Date.now();
+    const value = await waitUntil(
+      "the third poll",
+      () => (++polls >= 3 ? { polls } : undefined),
+      { interval: 20 }
+    );
+    expect(value).toEqual({ polls: 3 });
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  /** Timeouts report the condition, the last outcome and diagnostics. */
+  test("explains what it was waiting for", { tag: "@API" }, async () => {
+    let polls = 0;
+    const error = await waitUntil(
+      "the cart badge",
+      () => {
+        if (++polls % 2) {
+          throw new Error("badge not rendered");
+        }
+        return 0;
+      },
+      {
+        timeout: 300,
+        interval: 25,
+        diagnose: () => ["cart: GET /carts/1 pending for 280ms"],
+      }
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(WaitTimeoutError);
+    expect(error.condition).toBe("the cart badge");
+    expect(error.message).toMatch(
+      /^Timed out after 300ms waiting for the cart badge:\n {2}- last (result: 0|error: badge not rendered)\n {2}- cart: GET \/carts\/1 pending for 280ms$/
+    );
+    expect(polls).toBeGreaterThan(2);
+  });
+});
+
+/**
+ * Suite for the page waits that replace fixed sleeps, on pages built with
+ * `page.setContent` and answered by `page.route`.
+ */
+test.describe("Page waits", () => {
+  /** Waits for matching requests to finish and the network to go quiet. */
+  test(
+    "waits for the network to settle",
+    { tag: "@UI" },
+    async ({ uiPage, page }) => {
+      await uiPage.stubRoute("GET", "/", { body: "<main></main>" });
+      await uiPage.routeApi("https://shop.invalid");
+      await page.route("**/slow", async (route) => {
+        await new Promise((resolve) => setTimeout(resolve, 300));
+        await route.fulfill({ body: "done" });
+      });
+      let held: Route | undefined;
+      await page.route("**/hang", (route) => {
+        held = route;
+      });
+      await page.goto("/");
+
+      const startedAt = Date.now();
+      await Promise.all([
+        page.waitForRequest("**/slow"),
+        page.evaluate(() => void fetch("/slow")),
+      ]);
+      await uiPage.waits.networkSettled({ slow: "/slow" }, { quietMs: 100 });
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(300);
+
+      await Promise.all([
+        page.waitForRequest("**/hang"),
+        page.evaluate(() => void fetch("/hang")),
+      ]);
+      const error = await uiPage.waits
+        .networkSettled({ hang: "/hang" }, { timeout: 300 })
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(WaitTimeoutError);
+      expect(error.message).toMatch(
+        /^Timed out after 300ms waiting for hang to settle:\n[^]*- hang: GET https:\/\/shop\.invalid\/hang pending for \d+ms$/
+      );
+      await held?.fulfill({ body: "late" });
+    }
+  );
+
+  /** Resolves once mutations stop; reports them when they never do. */
+  test(
+    "waits for the DOM to be stable",
+    { tag: "@UI" },
+    async ({ uiPage, page }) => {
+      await page.setContent(`<ul id="list"></ul><p id="clock"></p>
+<script>
+  let added = 0;
+  const adding = setInterval(() => {
+    list.append(document.createElement("li"));
+    if (++added === 5) clearInterval(adding);
+  }, 50);
+  setInterval(() => (clock.textContent = Date.now()), 20);
+</script>`);
+
+      await uiPage.waits.domStable({ selector: "#list", quietMs: 200 });
+      await expect(page.locator("#list li")).toHaveCount(5);
+
+      const error = await uiPage.waits
+        .domStable({ selector: "#clock", quietMs: 200, timeout: 500 })
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(WaitTimeoutError);
+      expect(error.message).toMatch(
+        /^Timed out after 500ms waiting for the DOM of "#clock" to be stable for 200ms:\n {2}- \d+ mutations while waiting$/
+      );
+      await expect(
+        uiPage.waits.domStable({ selector: "#missing" })
+      ).rejects.toThrow('no element matches "#missing"');
+    }
+  );
+
+  /** Waits for one API response and validates it against its schema. */
+  test(
+    "waits for an API response",
+    { tag: "@UI" },
+    async ({ uiPage, page, mockServer }) => {
+      await uiPage.stubRoute("GET", "/", { body: "<main></main>" });
+      await uiPage.routeApi("https://shop.invalid", mockServer);
+      await page.goto("/");
+
+      const cart = await uiPage.waits.response(
+        "cart",
+        { url: "/carts/1", schema: CART_SCHEMA },
+        () => page.evaluate(() => fetch("/carts/1").then((r) => r.status))
+      );
+      expect(cart.body).toMatchObject({ id: 1, userId: 33 });
+
+      await expect(
+        uiPage.waits.response("profile", { url: "/auth/me" }, undefined, {
+          timeout: 200,
+        })
+      ).rejects.toThrow(
+        /^No response matched capture "profile" \(any method \/auth\/me, status 2xx\)/
+      );
+    }
+  );
+});
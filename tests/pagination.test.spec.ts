@@ -0,0 +1,159 @@
+import { z } from "zod";
+import { test, expect } from "../fixtures/api-fixture";
+import { PaginationError } from "../helpers/pagination";
+import { SchemaValidationError } from "../helpers/schema-validation";
+import { CART_SCHEMA } from "../schemas/schema";
+
+test.use({ useMockServer: true });
+
+const ITEMS = Array.from({ length: 7 }, (_, i) => ({
+  id: i + 1,
+  name: `item-${i + 1}`,
+}));
+const ITEM_SCHEMA = z.object({ id: z.number(), name: z.string() }).strict();
+
+/**
+ * Suite for paging through list endpoints with `paginate` and `collectAll`.
+ */
+test.describe("Pagination", () => {
+  /** dummyjson-style `skip`/`limit` paging of `/carts`. */
+  test(
+    "collects every cart with offset paging",
+    { tag: "@API" },
+    async ({ apiHelper, mockServer }) => {
+      const result = await apiHelper.collectAll("/carts", {
+        strategy: { type: "offset", limit: 2 },
+        itemSchema: CART_SCHEMA,
+      });
+      expect(result.pages).toBe(3);
+      expect(result.items).toHaveLength(result.total!);
+      expect(result.items.map((cart) => cart.id)).toEqual([1, 2, 3, 4, 5]);
+      expect(mockServer.requests.map((r) => r.query)).toEqual([
+        { skip: "0", limit: "2" },
+        { skip: "2", limit: "2" },
+        { skip: "4", limit: "2" },
+      ]);
+    }
+  );
+
+  /** Page numbers stop at the reported page count. */
+  test(
+    "follows page numbers",
+    { tag: "@API" },
+    async ({ apiHelper, mockServer }) => {
+      mockServer.on("GET", "/items", ({ query }) => {
+        const size = Number(query.per_page);
+        const start = (Number(query.page) - 1) * size;
+        return {
+          body: {
+            results: ITEMS.slice(start, start + size),
+            meta: { pages: Math.ceil(ITEMS.length / size) },
+          },
+        };
+      });
+      const pages = [];
+      for await (const page of apiHelper.paginate("/items", {
+        strategy: {
+          type: "page",
+          pageSize: 3,
+          sizeParam: "per_page",
+          totalPagesKey: "meta.pages",
+        },
+        itemSchema: ITEM_SCHEMA,
+      })) {
+        pages.push(page.items.map((item) => item.id));
+      }
+      expect(pages).toEqual([[1, 2, 3], [4, 5, 6], [7]]);
+    }
+  );
+
+  /** Cursors from the body are sent back until none is returned. */
+  test(
+    "follows cursors",
+    { tag: "@API" },
+    async ({ apiHelper, mockServer }) => {
+      mockServer.on("GET", "/events", ({ query }) => {
+        const start = Number(query.after ?? 0);
+        return {
+          body: {
+            data: ITEMS.slice(start, start + 4),
+            next: start + 4 < ITEMS.length ? String(start + 4) : null,
+          },
+        };
+      });
+      const result = await apiHelper.collectAll("/events", {
+        strategy: { type: "cursor", cursorParam: "after", nextCursor: "next" },
+      });
+      expect(result).toEqual({ items: ITEMS, pages: 2, total: undefined });
+    }
+  );
+
+  /** `Link: <...>; rel="next"` headers are followed as-is. */
+  test(
+    "follows Link headers",
+    { tag: "@API" },
+    async ({ apiHelper, mockServer }) => {
+      mockServer.on("GET", "/repos", ({ query }) => {
+        const page = Number(query.p ?? 1);
+        const links = [`</repos?p=1>; rel="first"`];
+        if (page * 3 < ITEMS.length) {
+          links.push(`</repos?p=${page + 1}>; rel="next"`);
+        }
+        return {
+          headers: { link: links.join(", ") },
+          body: ITEMS.slice((page - 1) * 3, page * 3),
+        };
+      });
+      const result = await apiHelper.collectAll("/repos", {
+        strategy: { type: "link" },
+        query: { p: 1 },
+      });
+      expect(result.items).toEqual(ITEMS);
+      expect(mockServer.requests.map((r) => r.query.p)).toEqual([
+        "1",
+        "2",
+        "3",
+      ]);
+    }
+  );
+
+  /** The page cap, wrong totals and invalid items fail loudly. */
+  test(
+    "guards against runaway and inconsistent paging",
+    { tag: "@API" },
+    async ({ apiHelper, mockServer }) => {
+      mockServer.on("GET", "/endless", {
+        body: { data: [ITEMS[0]], next: "again" },
+      });
+      await expect(
+        apiHelper.collectAll("/endless", {
+          strategy: { type: "cursor", nextCursor: "next" },
+          maxPages: 3,
+        })
+      ).rejects.toThrow(/stopped after 3 pages/);
+      expect(mockServer.requests).toHaveLength(3);
+
+      mockServer.on("GET", "/short", ({ query }) => ({
+        body: {
+          products: query.skip === "0" ? ITEMS.slice(0, 3) : [],
+          total: 10,
+        },
+      }));
+      const error = await apiHelper
+        .collectAll("/short", { strategy: { type: "offset" } })
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(PaginationError);
+      expect(error.message).toContain("reported a total of 10");
+
+      mockServer.on("GET", "/invalid", {
+        body: { items: [ITEMS[0], { id: "2" }], total: 2 },
+      });
+      await expect(
+        apiHelper.collectAll("/invalid", {
+          strategy: { type: "offset" },
+          itemSchema: ITEM_SCHEMA,
+        })
+      ).rejects.toBeInstanceOf(SchemaValidationError);
+    }
+  );
+});
@@ -0,0 +1,132 @@
+import { test, expect } from "../fixtures/api-fixture";
+import { ApiHelper } from "../helpers/api-helper";
+import { LatencyBudgetError, latencyStats } from "../helpers/performance";
+
+test.use({ useMockServer: true });
+
+/**
+ * Suite for latency budgets and the load runner.
+ */
+test.describe("Performance", () => {
+  /** Percentiles use the nearest-rank method. */
+  test("summarises latencies", { tag: "@API" }, async () => {
+    const durations = Array.from({ length: 100 }, (_, i) => 100 - i);
+    expect(latencyStats(durations)).toEqual({
+      count: 100,
+      min: 1,
+      max: 100,
+      avg: 50.5,
+      p50: 50,
+      p95: 95,
+      p99: 99,
+    });
+  });
+
+  /** Only endpoints whose measured latencies exceed their budget fail. */
+  test(
+    "asserts per-endpoint latency budgets",
+    { tag: "@API" },
+    async ({ apiDefaults, mockServer }) => {
+      mockServer.on(
+        "GET",
+        "/carts/2",
+        { status: 404, body: { message: "Cart with id '2' not found" } },
+        { delayMs: 150 }
+      );
+      const helper = new ApiHelper({
+        ...apiDefaults,
+        latencyBudgets: {
+          "GET /carts": { p95: 1000 },
+          "GET /carts/:cartId": { p95: 100, max: 120 },
+        },
+      });
+      try {
+        await helper.getRequest("/carts");
+        await helper.getRequest("/carts/1");
+        await helper.getRequest("/carts/2");
+
+        expect(helper.latency.stats("GET /carts/:cartId").count).toBe(2);
+        let error: LatencyBudgetError | undefined;
+        try {
+          helper.assertLatencyBudgets();
+        } catch (e) {
+          error = e as LatencyBudgetError;
+        }
+        expect(error).toBeInstanceOf(LatencyBudgetError);
+        expect(error!.violations).toHaveLength(2);
+        expect(error!.violations[0]).toMatch(
+          /^GET \/carts\/:cartId \(2 requests\): p95 \d+ms exceeds 100ms$/
+        );
+      } finally {
+        await helper.dispose();
+      }
+    }
+  );
+
+  /**
+   * Iterations run concurrently and their statistics are reported. The run's
+   * helper keeps no exchanges or samples, so only the reports are attached.
+   */
+  test("runs a scenario under load", { tag: "@API" }, async ({ loadTest }) => {
+    const helpers = new Set<ApiHelper>();
+    const report = await loadTest(
+      (iteration, { api }) => api.carts.byId({ cartId: (iteration % 5) + 1 }),
+      {
+        name: "carts-by-id",
+        concurrency: 4,
+        iterations: 40,
+        budget: { p95: 2000, errorRate: 0 },
+      }
+    );
+    expect(report).toMatchObject({ iterations: 40, errors: 0, errorRate: 0 });
+    expect(report.latency.p50).toBeLessThanOrEqual(report.latency.p95);
+    expect(report.throughput).toBeGreaterThan(0);
+    expect(test.info().attachments.map((a) => a.name)).toEqual(
+      expect.arrayContaining(["carts-by-id.json", "carts-by-id.txt"])
+    );
+
+    const timed = await loadTest(
+      (_, { api, apiHelper }) => {
+        helpers.add(apiHelper);
+        return api.carts.all();
+      },
+      {
+        name: "carts-for-duration",
+        concurrency: 2,
+        durationMs: 300,
+      }
+    );
+    expect(timed.iterations).toBeGreaterThan(0);
+    expect(timed.durationMs).toBeGreaterThanOrEqual(300);
+    expect(test.info().attachments).toHaveLength(4);
+    const [loadHelper] = helpers;
+    expect(helpers.size).toBe(1);
+    expect(loadHelper.logger.exchanges).toEqual([]);
+    expect(loadHelper.latency.samples).toEqual([]);
+  });
+
+  /** Failed iterations count towards the error-rate budget. */
+  test(
+    "fails when the error rate exceeds the budget",
+    { tag: "@API" },
+    async ({ loadTest, mockServer }) => {
+      mockServer.on("GET", "/carts/:cartId", { status: 503 }, { times: 5 });
+      const run = loadTest(
+        (iteration, { api }) =>
+          api.carts.byId({
+            cartId: (iteration % 5) + 1,
+            options: { retry: { maxAttempts: 1 } },
+          }),
+        {
+          name: "flaky-carts",
+          concurrency: 2,
+          iterations: 20,
+          budget: { errorRate: 0.1 },
+        }
+      );
+      await expect(run).rejects.toThrow(
+        /flaky-carts: error rate 25\.0% exceeds 10\.0%/
+      );
+    }
+  );
+});
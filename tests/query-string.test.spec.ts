@@ -0,0 +1,127 @@
+import { z } from "zod";
+import { test, expect } from "../fixtures/api-fixture";
+import { serializeQuery } from "../helpers/query-string";
+import { RequestValidationError } from "../helpers/schema-validation";
+
+test.use({ useMockServer: true });
+
+const QUERY = {
+  ids: [1, 2],
+  filter: { status: "open", tags: ["a", "b"] },
+  since: new Date("2024-05-01T10:00:00Z"),
+  missing: undefined,
+  empty: null,
+};
+
+/**
+ * Suite for query parameter serialization and validation.
+ */
+test.describe("Query parameters", () => {
+  /** Arrays, nested objects, dates and empty values follow the options. */
+  test("serializes arrays, objects and dates", { tag: "@API" }, async () => {
+    expect(serializeQuery(QUERY)).toEqual([
+      ["ids", "1"],
+      ["ids", "2"],
+      ["filter[status]", "open"],
+      ["filter[tags]", "a"],
+      ["filter[tags]", "b"],
+      ["since", "2024-05-01T10:00:00.000Z"],
+      ["empty", ""],
+    ]);
+    expect(
+      serializeQuery(QUERY, {
+        arrayFormat: "brackets",
+        objectFormat: "json",
+        dateFormat: "date",
+      })
+    ).toEqual([
+      ["ids[]", "1"],
+      ["ids[]", "2"],
+      ["filter", '{"status":"open","tags":["a","b"]}'],
+      ["since", "2024-05-01"],
+      ["empty", ""],
+    ]);
+    expect(
+      serializeQuery(
+        { ids: [1, 2], since: QUERY.since },
+        { arrayFormat: "comma", dateFormat: "epoch-seconds" }
+      )
+    ).toEqual([
+      ["ids", "1,2"],
+      ["since", "1714557600"],
+    ]);
+    expect(serializeQuery({ ids: [3, 4] }, { arrayFormat: "indices" })).toEqual(
+      [
+        ["ids[0]", "3"],
+        ["ids[1]", "4"],
+      ]
+    );
+  });
+
+  /** Helper and per-call options decide how the URL is built. */
+  test(
+    "builds request URLs with the configured format",
+    { tag: "@API" },
+    async ({ apiHelper }) => {
+      const repeated = await apiHelper.getRequest("/carts", undefined, {
+        limit: 2,
+        select: ["id", "total"],
+      });
+      expect(new URL(repeated.url).search).toBe(
+        "?limit=2&select=id&select=total"
+      );
+
+      const comma = await apiHelper.getRequest(
+        "/carts?skip=1",
+        undefined,
+        { limit: 2, select: ["id", "total"], unused: undefined },
+        undefined,
+        { query: { arrayFormat: "comma" } }
+      );
+      expect(new URL(comma.url).searchParams.getAll("select")).toEqual([
+        "id,total",
+      ]);
+      expect(new URL(comma.url).searchParams.get("skip")).toBe("1");
+      expect(new URL(comma.url).searchParams.has("unused")).toBe(false);
+    }
+  );
+
+  /** Invalid queries are rejected before anything is sent. */
+  test(
+    "validates the query against a schema",
+    { tag: "@API" },
+    async ({ apiHelper, mockServer }) => {
+      const querySchema = z
+        .object({
+          limit: z.number().int().max(100).default(10),
+          skip: z.number().int().min(0).optional(),
+        })
+        .strict();
+
+      const error = await apiHelper
+        .getRequest(
+          "/carts",
+          undefined,
+          { limit: 500, sort: "asc" },
+          undefined,
+          {
+            querySchema,
+          }
+        )
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(RequestValidationError);
+      expect(error.part).toBe("query");
+      expect(error.message).toContain("limit");
+      expect(mockServer.requests).toHaveLength(0);
+
+      const response = await apiHelper.getRequest(
+        "/carts",
+        undefined,
+        undefined,
+        undefined,
+        { querySchema }
+      );
+      expect(new URL(response.url).search).toBe("?limit=10");
+    }
+  );
+});
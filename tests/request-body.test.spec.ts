@@ -0,0 +1,147 @@
+import fs from "fs";
+import { test, expect } from "../fixtures/api-fixture";
+import { toCurl } from "../helpers/api-logger";
+import {
+  checksum,
+  formBody,
+  multipartBody,
+  rawBody,
+} from "../helpers/request-body";
+
+test.use({ useMockServer: true });
+
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Suite for form, multipart and binary request bodies and binary downloads.
+ */
+test.describe("Request bodies", () => {
+  /** Form fields are URL-encoded and logged as `--data-urlencode`. */
+  test(
+    "sends url-encoded forms",
+    { tag: "@API" },
+    async ({ apiHelper, mockServer }) => {
+      mockServer.on("POST", "/form", ({ headers, body }) => ({
+        body: { contentType: headers["content-type"], body },
+      }));
+      const response = await apiHelper.postRequest(
+        "/form",
+        undefined,
+        formBody({ username: "emilys", expiresInMins: 30 })
+      );
+      expect(response.body).toEqual({
+        contentType: "application/x-www-form-urlencoded",
+        body: "username=emilys&expiresInMins=30",
+      });
+      const [exchange] = apiHelper.logger.exchanges;
+      expect(exchange.request.bodyType).toBe("form");
+      expect(toCurl(exchange)).toContain("--data-urlencode 'username=emilys'");
+    }
+  );
+
+  /** Files from disk and from memory are uploaded in one multipart body. */
+  test(
+    "uploads multipart files",
+    { tag: "@API" },
+    async ({ apiHelper, mockServer }, testInfo) => {
+      const notes = testInfo.outputPath("notes.txt");
+      fs.writeFileSync(notes, "hello from disk");
+      mockServer.on("POST", "/upload", ({ headers, body }) => ({
+        body: {
+          contentType: headers["content-type"],
+          raw: (body as Buffer).toString("latin1"),
+        },
+      }));
+
+      const response = await apiHelper.postRequest(
+        "/upload",
+        undefined,
+        multipartBody({
+          title: "release",
+          notes: { path: notes },
+          logo: { buffer: PNG_BYTES, name: "logo.png", mimeType: "image/png" },
+        })
+      );
+      expect(response.body.contentType).toMatch(
+        /^multipart\/form-data; boundary=/
+      );
+      expect(response.body.raw).toContain('name="title"\r\n\r\nrelease');
+      expect(response.body.raw).toContain('filename="notes.txt"');
+      expect(response.body.raw).toContain("hello from disk");
+      expect(response.body.raw).toContain(
+        'filename="logo.png"\r\ncontent-type: image/png'
+      );
+      expect(response.body.raw).toContain(PNG_BYTES.toString("latin1"));
+
+      const [exchange] = apiHelper.logger.exchanges;
+      expect(exchange.request.body).toMatchObject({
+        title: "release",
+        notes: { file: "notes.txt", bytes: 15 },
+        logo: { file: "logo.png", bytes: 8, sha256: checksum(PNG_BYTES) },
+      });
+    }
+  );
+
+  /** Raw text and bytes are sent unchanged with a matching content type. */
+  test(
+    "sends raw text and bytes",
+    { tag: "@API" },
+    async ({ apiHelper, mockServer }) => {
+      mockServer.on("PUT", "/blobs/:name", ({ headers, body }) => ({
+        body: {
+          contentType: headers["content-type"],
+          sha256: checksum(body),
+        },
+      }));
+      const bytes = await apiHelper.putRequest(
+        "/blobs/logo",
+        undefined,
+        rawBody(PNG_BYTES)
+      );
+      expect(bytes.body).toEqual({
+        contentType: "application/octet-stream",
+        sha256: checksum(PNG_BYTES),
+      });
+      const [exchange] = apiHelper.logger.exchanges;
+      expect(exchange.request.body).toEqual({
+        bytes: PNG_BYTES.length,
+        sha256: checksum(PNG_BYTES),
+      });
+      expect(toCurl(exchange)).toContain("--data-binary @body.bin");
+
+      const csv = await apiHelper.putRequest(
+        "/blobs/report",
+        undefined,
+        rawBody("id,total\n1,10\n", "text/csv")
+      );
+      expect(csv.body).toEqual({
+        contentType: "text/csv",
+        sha256: checksum("id,total\n1,10\n"),
+      });
+    }
+  );
+
+  /** Binary downloads are saved to disk with their checksum. */
+  test(
+    "downloads binary bodies",
+    { tag: "@API" },
+    async ({ apiHelper, mockServer }, testInfo) => {
+      mockServer.on("GET", "/files/logo.png", {
+        headers: { "content-type": "image/png" },
+        body: PNG_BYTES,
+      });
+      const target = testInfo.outputPath("downloads", "logo.png");
+      const response = await apiHelper.download("/files/logo.png", target);
+      expect(response.file).toEqual({
+        path: target,
+        bytes: PNG_BYTES.length,
+        sha256: checksum(PNG_BYTES),
+      });
+      expect(fs.readFileSync(target)).toEqual(PNG_BYTES);
+
+      await expect(
+        apiHelper.download("/files/missing.png", target)
+      ).rejects.toThrow(/failed with status 404/);
+    }
+  );
+});
@@ -0,0 +1,68 @@
+import { test, expect } from "../fixtures/api-fixture";
+import {
+  backoffDelay,
+  canRetryMethod,
+  isRetryableError,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from "../helpers/retry-policy";
+
+/**
+ * Suite for the retry policy used by `ApiHelper`.
+ */
+test.describe("Retry policy", () => {
+  /** Backoff doubles per attempt and is capped; jitter stays within 50-100%. */
+  test("exponential backoff with jitter", { tag: "@API" }, () => {
+    const policy = resolveRetryPolicy({
+      baseDelayMs: 100,
+      maxDelayMs: 1000,
+      jitter: false,
+    });
+    expect([1, 2, 3, 4, 5].map((a) => backoffDelay(policy, a))).toEqual([
+      100, 200, 400, 800, 1000,
+    ]);
+    const jittered = backoffDelay({ ...policy, jitter: true }, 3);
+    expect(jittered).toBeGreaterThanOrEqual(200);
+    expect(jittered).toBeLessThanOrEqual(400);
+  });
+
+  /** `Retry-After` wins over backoff, in seconds or as an HTTP date. */
+  test("Retry-After is honoured", { tag: "@API" }, () => {
+    const policy = resolveRetryPolicy({ maxDelayMs: 5000 });
+    expect(backoffDelay(policy, 1, "2")).toBe(2000);
+    expect(backoffDelay(policy, 1, "120")).toBe(5000);
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:05 GMT", 0)).toBe(
+      Date.parse("Wed, 21 Oct 2015 07:28:05 GMT")
+    );
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    const ignoring = resolveRetryPolicy({
+      respectRetryAfter: false,
+      jitter: false,
+    });
+    expect(backoffDelay(ignoring, 1, "2")).toBe(ignoring.baseDelayMs);
+  });
+
+  /** POST and PATCH are only retried when explicitly allowed. */
+  test("non-idempotent methods are guarded", { tag: "@API" }, () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 3 });
+    expect(canRetryMethod(policy, "get")).toBe(true);
+    expect(canRetryMethod(policy, "PUT")).toBe(true);
+    expect(canRetryMethod(policy, "POST")).toBe(false);
+    expect(canRetryMethod(policy, "PATCH")).toBe(false);
+    expect(
+      canRetryMethod({ ...policy, retryNonIdempotent: true }, "POST")
+    ).toBe(true);
+  });
+
+  /** Network errors are matched by code in the error message. */
+  test("retryable network errors", { tag: "@API" }, () => {
+    const policy = resolveRetryPolicy();
+    expect(
+      isRetryableError(
+        policy,
+        new Error("apiRequestContext.get: read ECONNRESET")
+      )
+    ).toBe(true);
+    expect(isRetryableError(policy, new Error("Invalid URL"))).toBe(false);
+  });
+});
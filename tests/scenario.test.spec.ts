@@ -0,0 +1,124 @@
+import { test, expect } from "../fixtures/api-fixture";
+import {
+  extractJsonPath,
+  interpolate,
+  queryJsonPath,
+  scenarioCases,
+  ScenarioError,
+} from "../helpers/scenario";
+
+test.use({ useMockServer: true });
+
+const CARTS = {
+  carts: [
+    { id: 1, userId: 33, products: [{ id: 7, title: "Lamp" }] },
+    { id: 2, userId: 11, products: [] },
+    { id: 3, userId: 11, products: [{ id: 9, title: "Desk" }] },
+  ],
+  total: 3,
+};
+
+/**
+ * One test per scenario file: each step is sent through `apiHelper` as its
+ * own `test.step`, chaining values extracted from earlier responses.
+ */
+test.describe("Scenario files", () => {
+  const cases = scenarioCases(["testData/scenarios/auth-session.json"], {
+    tag: "@API",
+  });
+  for (const { title, details, scenario } of cases) {
+    test(title, details, async ({ runScenario }) => {
+      await runScenario(scenario);
+    });
+  }
+});
+
+/**
+ * Suite for the scenario runner: JSONPath extraction, variable interpolation
+ * and failure reports.
+ */
+test.describe("Scenario runner", () => {
+  /** Definite paths return one value; wildcards and filters return arrays. */
+  test("extracts values with JSONPath", { tag: "@API" }, async () => {
+    expect(extractJsonPath(CARTS, "$.total")).toBe(3);
+    expect(extractJsonPath(CARTS, "$.carts[-1].products[0].title")).toBe(
+      "Desk"
+    );
+    expect(extractJsonPath(CARTS, "$['carts'][1]['userId']")).toBe(11);
+    expect(extractJsonPath(CARTS, "$.carts[*].id")).toEqual([1, 2, 3]);
+    expect(extractJsonPath(CARTS, "$.carts[?(@.userId==11)].id")).toEqual([
+      2, 3,
+    ]);
+    expect(queryJsonPath(CARTS, "$.carts[*].products[*].title")).toEqual([
+      "Lamp",
+      "Desk",
+    ]);
+    expect(() => extractJsonPath(CARTS, "$.carts[5].id")).toThrow(
+      "$.carts[5].id matched nothing"
+    );
+    expect(() => extractJsonPath(CARTS, "$.carts..id")).toThrow(
+      "Unsupported JSONPath syntax at position 7"
+    );
+  });
+
+  /**
+   * Whole-string references keep their type; embedded ones are stringified.
+   * A reference that does not resolve at any depth throws.
+   */
+  test("interpolates variables", { tag: "@API" }, async () => {
+    const variables = { token: "abc", userId: 11, cartIds: [2, 3] };
+    expect(
+      interpolate(
+        {
+          path: "/carts/user/{{userId}}",
+          headers: { Authorization: "Bearer {{ token }}" },
+          body: { userId: "{{userId}}", first: "{{cartIds.0}}" },
+        },
+        variables
+      )
+    ).toEqual({
+      path: "/carts/user/11",
+      headers: { Authorization: "Bearer abc" },
+      body: { userId: 11, first: 2 },
+    });
+    expect(() => interpolate("{{missing}}", variables)).toThrow(
+      'Unknown variable "missing"'
+    );
+    expect(() => interpolate("id {{cartIds.5}}", variables)).toThrow(
+      'Unknown variable "cartIds.5"'
+    );
+    expect(() => interpolate("{{token.length}}", variables)).toThrow(
+      'Unknown variable "token.length"'
+    );
+  });
+
+  /** Failing steps name the scenario and step, and still attach a report. */
+  test("reports the failing step", { tag: "@API" }, async ({ runScenario }) => {
+    const error = await runScenario({
+      name: "missing cart",
+      variables: { cartId: 999 },
+      steps: [
+        { name: "list carts", endpoint: "carts.all" },
+        {
+          name: "read a missing cart",
+          endpoint: "carts.byId",
+          params: { cartId: "{{cartId}}" },
+          expect: { status: 200 },
+        },
+        { name: "never runs", method: "GET", path: "/carts" },
+      ],
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ScenarioError);
+    expect(error.message).toMatch(
+      /^Scenario "missing cart", step "read a missing cart": expected status 200, received 404 from GET .*\/carts\/999: {"message":"Cart with id '999' not found"}$/
+    );
+    const reports = test
+      .info()
+      .attachments.filter((a) => a.name.startsWith("missing cart"));
+    expect(reports.map((a) => a.name)).toEqual([
+      "missing cart › 1. list carts",
+      "missing cart › 2. read a missing cart",
+    ]);
+  });
+});
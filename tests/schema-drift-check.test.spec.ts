@@ -0,0 +1,51 @@
+import fs from "fs";
+import path from "path";
+import { test, expect } from "../fixtures/api-fixture";
+import { SCHEMA_DRIFT_TARGETS } from "../config/schema-drift";
+import { checkSchemaDrift } from "../helpers/schema-drift";
+
+// The contract would reject a drifted payload before it could be inferred.
+test.use({ apiHelperOptions: { contract: undefined } });
+
+/**
+ * Compares the committed schemas with the payloads the API returns today.
+ * Run with `npm run schema:drift`; set `SCHEMA_DRIFT_OUT=<dir>` to write
+ * updated schema sources there. Each diff and the updated source are also
+ * attached to the report.
+ */
+test.describe("Schema drift", () => {
+  for (const target of SCHEMA_DRIFT_TARGETS) {
+    const { method, path: endpointPath } = target.endpoint;
+    test(
+      `${target.schemaName} matches ${method} ${endpointPath}`,
+      { tag: "@drift" },
+      async ({ apiHelper, authenticatedApiHelper, credentials }, testInfo) => {
+        const { changes, report, source } = await checkSchemaDrift(
+          target,
+          target.authenticated ? authenticatedApiHelper.helper : apiHelper,
+          credentials
+        );
+        await testInfo.attach(`${target.schemaName}.drift.txt`, {
+          body: report,
+          contentType: "text/plain",
+        });
+        await testInfo.attach(`${target.schemaName}.ts`, {
+          body: source,
+          contentType: "text/plain",
+        });
+        if (process.env.SCHEMA_DRIFT_OUT && changes.length) {
+          fs.mkdirSync(process.env.SCHEMA_DRIFT_OUT, { recursive: true });
+          fs.writeFileSync(
+            path.join(process.env.SCHEMA_DRIFT_OUT, `${target.schemaName}.ts`),
+            source
+          );
+        }
+
+        expect(
+          changes.filter((change) => change.breaking),
+          report
+        ).toEqual([]);
+      }
+    );
+  }
+});
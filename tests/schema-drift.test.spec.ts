@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { test, expect } from "../fixtures/api-fixture";
+import { SCHEMA_DRIFT_TARGETS } from "../config/schema-drift";
+import {
+  checkSchemaDrift,
+  describeSchema,
+  diffShapes,
+  formatDrift,
+  inferShape,
+  toZodSource,
+} from "../helpers/schema-drift";
+import { LOGIN_API_SCHEMA } from "../schemas/schema";
+
+test.use({ useMockServer: true, apiHelperOptions: { contract: undefined } });
+
+const LOGIN = {
+  accessToken: "a",
+  refreshToken: "r",
+  id: 1,
+  username: "emilys",
+  email: "emily.johnson@x.dummyjson.com",
+  firstName: "Emily",
+  lastName: "Johnson",
+  gender: "female",
+  image: "https://dummyjson.com/icon/emilys/128",
+};
+
+/**
+ * Suite for inferring schemas from payloads and diffing them against the
+ * committed ones.
+ */
+test.describe("Schema drift", () => {
+  /** A payload that matches the committed schema reports no drift. */
+  test("no drift for a matching payload", { tag: "@API" }, () => {
+    const changes = diffShapes(
+      describeSchema(LOGIN_API_SCHEMA),
+      inferShape(LOGIN)
+    );
+    expect(changes).toEqual([]);
+    expect(formatDrift("LOGIN_API_SCHEMA", changes)).toBe(
+      "LOGIN_API_SCHEMA: no drift"
+    );
+  });
+
+  /** Added and removed fields, type changes and new enum values. */
+  test("reports every kind of change", { tag: "@API" }, () => {
+    const { image: _image, ...withoutImage } = LOGIN;
+    const observed = inferShape(
+      { ...withoutImage, id: "1", gender: "other", role: "admin" },
+      { ...withoutImage, id: "2", gender: "male", role: "user" }
+    );
+    const report = formatDrift(
+      "LOGIN_API_SCHEMA",
+      diffShapes(describeSchema(LOGIN_API_SCHEMA), observed)
+    );
+    expect(report).toBe(
+      [
+        "LOGIN_API_SCHEMA: 4 change(s)",
+        "  ~ id: expected number, received string",
+        '  ~ gender: new enum values "other" (expected one of "male", "female")',
+        "  + role: new field (string), rejected by the strict schema",
+        "  - image: required field is missing from the response",
+      ].join("\n")
+    );
+  });
+
+  /** Fields missing from some samples become optional; nulls nullable. */
+  test("merges several samples", { tag: "@API" }, () => {
+    const observed = inferShape(
+      { items: [{ id: 1, note: null }], tag: "a" },
+      { items: [{ id: 2.5, note: "x" }] }
+    );
+    const committed = describeSchema(
+      z.object({
+        items: z.array(z.object({ id: z.number().int(), note: z.string() })),
+        tag: z.string(),
+      })
+    );
+    expect(diffShapes(committed, observed).map((c) => c.path)).toEqual([
+      "items[].id",
+      "items[].note",
+      "tag",
+    ]);
+  });
+
+  /** Emitted source keeps enums and strictness from the committed schema. */
+  test("emits updated schema source", { tag: "@API" }, () => {
+    const committed = describeSchema(
+      z.object({ gender: z.enum(["male", "female"]) }).strict()
+    );
+    const observed = inferShape(
+      { gender: "other", email: "a@b.co" },
+      { gender: "male" }
+    );
+    expect(toZodSource(observed, committed)).toBe(
+      [
+        "z.object({",
+        '  gender: z.enum(["male", "female", "other"]),',
+        "  email: z.string().email().optional(),",
+        "}).strict()",
+      ].join("\n")
+    );
+  });
+
+  /** A drifted response is diffed and turned into updated schema source. */
+  test(
+    "checks a drifted endpoint",
+    { tag: "@API" },
+    async ({ authenticatedApiHelper, credentials, mockServer }) => {
+      const target = SCHEMA_DRIFT_TARGETS.find(
+        (t) => t.schemaName === "AUTH_USER_SCHEMA"
+      )!;
+      const { helper } = authenticatedApiHelper;
+      const user = await helper.getRequest("/auth/me");
+      mockServer.on("GET", "/auth/me", {
+        body: { ...user.body, gender: "other" },
+      });
+
+      const { changes, report, source } = await checkSchemaDrift(
+        target,
+        helper,
+        credentials
+      );
+      expect(changes.filter((c) => c.breaking).map((c) => c.path)).toEqual([
+        "gender",
+      ]);
+      expect(report).toMatch(
+        /^AUTH_USER_SCHEMA \(GET \/auth\/me\): \d+ change\(s\)/
+      );
+      expect(report).toContain(
+        '  ~ gender: new enum values "other" (expected one of "male", "female")'
+      );
+      expect(source).toContain('gender: z.enum(["male", "female", "other"])');
+    }
+  );
+});
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import { test, expect } from "../fixtures/api-fixture";
+import { ApiResponse } from "../helpers/api-helper";
+import { getUserSchema, LOGIN_API_SCHEMA } from "../schemas/schema";
+
+const loginBody = {
+  accessToken: "access",
+  refreshToken: "refresh",
+  id: 1,
+  username: "emilys",
+  email: "emily.johnson@x.dummyjson.com",
+  firstName: "Emily",
+  lastName: "Johnson",
+  gender: "female",
+  image: "https://dummyjson.com/icon/emilys/128",
+};
+
+function fakeResponse(overrides: Partial<ApiResponse> = {}): ApiResponse {
+  return {
+    ok: true,
+    status: 200,
+    statusText: "OK",
+    headers: { "content-type": "application/json; charset=utf-8" },
+    body: loginBody,
+    rawBody: Buffer.from(JSON.stringify(loginBody)),
+    elapsedMs: 12,
+    url: "https://dummyjson.com/auth/login",
+    method: "POST",
+    attempts: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Suite for the schema-aware matchers added to the fixture `expect`.
+ * These run without network access against hand-built payloads.
+ */
+test.describe("Schema matchers", () => {
+  /** A payload matching the schema passes, and `.not` inverts it. */
+  test("toMatchSchema passes for a valid body", { tag: "@API" }, () => {
+    expect(loginBody).toMatchSchema(LOGIN_API_SCHEMA);
+    expect({ ...loginBody, id: "1" }).not.toMatchSchema(LOGIN_API_SCHEMA);
+  });
+
+  /** Failures list each Zod issue by its path and the value received there. */
+  test("toMatchSchema reports issue paths", { tag: "@API" }, () => {
+    const users = [loginBody, loginBody, { ...loginBody, email: "nope" }];
+    expect(() => expect(users).toMatchSchema(getUserSchema)).toThrow(
+      /\[2\]\.email: Invalid email/
+    );
+    expect(() =>
+      expect({ ...loginBody, id: "1" }).toMatchSchema(LOGIN_API_SCHEMA)
+    ).toThrow(/ id: Expected number, received "1"$/);
+  });
+
+  /** Extra keys are tolerated by the partial matcher, but not by the strict one. */
+  test("toMatchSchemaPartially ignores unknown keys", { tag: "@API" }, () => {
+    const body = { ...loginBody, age: 28 };
+    expect(body).toMatchSchemaPartially(LOGIN_API_SCHEMA);
+    expect(body).not.toMatchSchema(LOGIN_API_SCHEMA);
+    expect([body]).toMatchSchemaPartially(z.array(LOGIN_API_SCHEMA));
+    expect({ ...body, email: "nope" }).not.toMatchSchemaPartially(
+      LOGIN_API_SCHEMA
+    );
+  });
+
+  /** Unknown keys are tolerated under defaults, refinements and records too. */
+  test(
+    "toMatchSchemaPartially reaches through wrapped schemas",
+    { tag: "@API" },
+    () => {
+      const item = z.object({ id: z.number() }).strict();
+      const schema = z
+        .object({
+          owner: item.default({ id: 0 }),
+          items: z.record(item),
+          range: z
+            .object({ from: z.number(), to: z.number() })
+            .strict()
+            .refine((range) => range.from <= range.to, "from after to"),
+        })
+        .strict();
+      const body = {
+        owner: { id: 1, name: "emily" },
+        items: { a: { id: 2, title: "Lamp" } },
+        range: { from: 1, to: 2, unit: "day" },
+      };
+      expect(body).not.toMatchSchema(schema);
+      expect(body).toMatchSchemaPartially(schema);
+      expect({ ...body, range: { from: 3, to: 2 } }).not.toMatchSchemaPartially(
+        schema
+      );
+    }
+  );
+
+  /** Status can be asserted by exact code, status class or a list of either. */
+  test("toHaveStatus", { tag: "@API" }, () => {
+    const response = fakeResponse({ status: 404, statusText: "Not Found" });
+    expect(response).toHaveStatus(404);
+    expect(response).toHaveStatus("4xx");
+    expect(response).toHaveStatus([200, 404]);
+    expect(response).not.toHaveStatus("2xx");
+    expect(() => expect(response).toHaveStatus(200)).toThrow(
+      /POST https:\/\/dummyjson\.com\/auth\/login[\s\S]*404 Not Found/
+    );
+  });
+
+  /** Header names are case-insensitive; values match exactly or by RegExp. */
+  test("toHaveHeader", { tag: "@API" }, () => {
+    const response = fakeResponse();
+    expect(response).toHaveHeader("Content-Type");
+    expect(response).toHaveHeader("content-type", /application\/json/);
+    expect(response).not.toHaveHeader("x-request-id");
+    expect(response).not.toHaveHeader("content-type", "text/html");
+  });
+});